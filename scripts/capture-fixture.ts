@@ -0,0 +1,64 @@
+/**
+ * Saves a product page as a parser fixture for its retailer, along with what
+ * the retailer's parser currently extracts from it:
+ *
+ *   npm run fixtures:capture -- <name> <url>
+ *   npm run fixtures:capture -- <name> <url> --from-file <saved-page.html>
+ *
+ * `--from-file` uses a page saved from a browser instead of fetching it, for
+ * when the retailer blocks the request. The generated JSON is a starting point,
+ * not a source of truth: check every field against the page before committing.
+ * Set `<RETAILER>_BASE_URL` (e.g. `CASHIFY_BASE_URL`) to capture from a mock
+ * server instead.
+ */
+import { copyFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { fetchProductHtml } from '../supabase/functions/_shared/scraper.ts';
+import { baseUrlEnvName, parseProductUrl } from '../supabase/functions/_shared/retailers/index.ts';
+
+const FIXTURES_ROOT = new URL('../supabase/functions/_shared/fixtures/', import.meta.url);
+
+async function main() {
+  const [name, url, flag, sourcePath] = process.argv.slice(2).filter(arg => arg !== '--');
+  if (!name || !url || (flag && (flag !== '--from-file' || !sourcePath))) {
+    console.error('Usage: npm run fixtures:capture -- <name> <url> [--from-file <saved-page.html>]');
+    process.exit(1);
+  }
+
+  const productUrl = parseProductUrl(url);
+  if (!productUrl) {
+    console.error(`No retailer supports ${url}`);
+    process.exit(1);
+  }
+
+  const { retailer } = productUrl;
+  const fixturesDir = fileURLToPath(new URL(`${retailer.id}/`, FIXTURES_ROOT));
+  const htmlPath = `${fixturesDir}${name}.html`;
+  const jsonPath = `${fixturesDir}${name}.json`;
+  await mkdir(fixturesDir, { recursive: true });
+
+  if (sourcePath) {
+    // npm runs scripts from the package root; resolve against where it was called
+    const source = resolve(process.env.INIT_CWD ?? process.cwd(), sourcePath);
+    if (source !== htmlPath) {
+      await copyFile(source, htmlPath);
+    }
+  } else {
+    const fetched = await fetchProductHtml(url, { baseUrl: process.env[baseUrlEnvName(retailer)] });
+    if (!fetched.ok) {
+      console.error(`Could not fetch ${url}: ${fetched.reason} (${fetched.message})`);
+      process.exit(1);
+    }
+    await writeFile(htmlPath, fetched.html);
+  }
+
+  const html = await readFile(htmlPath, 'utf8');
+  const expected = retailer.parse(html, url);
+  await writeFile(jsonPath, `${JSON.stringify({ url, expected }, null, 2)}\n`);
+
+  console.log(`Saved ${htmlPath}`);
+  console.log(`Saved ${jsonPath} (${expected.status}) - review it before committing`);
+}
+
+main();
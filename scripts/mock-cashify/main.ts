@@ -0,0 +1,11 @@
+import { createMockCashifyServer, SEED_PRODUCTS } from './server.ts';
+
+const port = Number(process.env.MOCK_CASHIFY_PORT ?? 8787);
+
+createMockCashifyServer().listen(port, () => {
+  console.log(`Mock Cashify listening on http://localhost:${port}`);
+  console.log('Seeded products:');
+  for (const path of Object.keys(SEED_PRODUCTS)) {
+    console.log(`  https://www.cashify.in${path}`);
+  }
+});
@@ -0,0 +1,93 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { scrapeProduct, selectVariant } from '../../supabase/functions/_shared/scraper.ts';
+import { cashify } from '../../supabase/functions/_shared/retailers/cashify.ts';
+import { createMockCashifyServer } from './server.ts';
+
+const PRODUCT_PATH = '/buy-refurbished-mobile-phones/apple-iphone-12-refurbished-mock0001';
+const PRODUCT_URL = `https://www.cashify.in${PRODUCT_PATH}`;
+const VARIANTS_URL = 'https://www.cashify.in/buy-refurbished-mobile-phones/samsung-galaxy-s21-fe-5g-refurbished-mock0003';
+
+describe('mock Cashify server', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const updateProduct = async (changes: object) => {
+    const response = await fetch(`${baseUrl}/__admin/products${PRODUCT_PATH}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+    expect(response.ok).toBe(true);
+  };
+
+  beforeAll(async () => {
+    server = createMockCashifyServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    await fetch(`${baseUrl}/__admin/reset`, { method: 'POST' });
+  });
+
+  it('serves pages the scraper parses completely', async () => {
+    const result = await scrapeProduct(cashify, PRODUCT_URL, { baseUrl });
+
+    expect(result).toMatchObject({
+      status: 'success',
+      data: {
+        title: 'Apple iPhone 12 - Refurbished',
+        sale_price: 28999,
+        mrp: 49900,
+        discount: '42%',
+        condition: 'Fair',
+        storage: '4 GB / 64 GB',
+        color: 'Blue',
+        // Relative paths still resolve against the real listing URL
+        image_url: 'https://www.cashify.in/static/product/apple-iphone-12-blue.jpg',
+        is_out_of_stock: false,
+      },
+    });
+  });
+
+  it('reflects price and stock changes made through the admin endpoint', async () => {
+    await updateProduct({ price: 24999 });
+    expect(await scrapeProduct(cashify, PRODUCT_URL, { baseUrl })).toMatchObject({
+      data: { sale_price: 24999, discount: '50%' },
+    });
+
+    await updateProduct({ inStock: false });
+    expect(await scrapeProduct(cashify, PRODUCT_URL, { baseUrl })).toMatchObject({
+      data: { sale_price: null, is_out_of_stock: true },
+    });
+  });
+
+  it('lists the variants of a page that offers several', async () => {
+    const result = await scrapeProduct(cashify, VARIANTS_URL, { baseUrl });
+    expect(result.status).toBe('success');
+    if (result.status === 'failed') return;
+
+    expect(result.data.variants?.map(variant => [variant.label, variant.sale_price, variant.is_out_of_stock])).toEqual([
+      ['Good, 8 GB / 128 GB, Olive', 20699, false],
+      ['Fair, 8 GB / 128 GB, Olive', 18999, false],
+      ['Superb, 8 GB / 256 GB, Graphite', 25499, true],
+    ]);
+    expect(selectVariant(result, 'fair|8gb-128gb|olive')).toMatchObject({
+      data: { sale_price: 18999, condition: 'Fair' },
+    });
+  });
+
+  it.each([
+    ['not_found', 'NOT_FOUND'],
+    ['blocked', 'BLOCKED'],
+    ['error', 'HTTP_ERROR'],
+  ])('simulates a %s response', async (response, reason) => {
+    await updateProduct({ response });
+    expect(await scrapeProduct(cashify, PRODUCT_URL, { baseUrl })).toMatchObject({ status: 'failed', reason });
+  });
+});
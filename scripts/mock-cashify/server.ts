@@ -0,0 +1,232 @@
+/**
+ * A stand-in for cashify.in that serves product pages in Cashify's markup with
+ * prices and stock you control, so `scrape-product`, `update-prices` and the
+ * alerts can be exercised end to end without the real site:
+ *
+ *   npm run mock:cashify                 # listens on MOCK_CASHIFY_PORT or 8787
+ *
+ * Point the edge functions at it with `CASHIFY_BASE_URL`, then change a
+ * product through the admin endpoints:
+ *
+ *   GET    /__admin/products            list every product
+ *   PUT    /__admin/products/<path>     create or update one (JSON body,
+ *                                      any `MockProduct` fields)
+ *   DELETE /__admin/products/<path>     remove one, so its page returns 404
+ *   POST   /__admin/reset               restore the seeded products
+ *
+ * `<path>` is the product URL's path, e.g.
+ * `/buy-refurbished-mobile-phones/apple-iphone-12-refurbished-mock0001`.
+ */
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+
+export interface MockProduct {
+  title: string;
+  price: number;
+  mrp: number | null;
+  inStock: boolean;
+  condition: string;
+  ram: string;
+  storage: string;
+  color: string;
+  imageUrl: string;
+  /** Serve the page normally, or simulate a removed listing, a bot wall or an outage */
+  response: 'ok' | 'not_found' | 'blocked' | 'error';
+  /**
+   * Other variants offered on the page, published in its Next.js page data
+   * the way Cashify does. The fields above are the one shown by default.
+   */
+  variants?: MockVariant[];
+}
+
+export type MockVariant = Pick<MockProduct, 'price' | 'mrp' | 'inStock' | 'condition' | 'ram' | 'storage' | 'color'>;
+
+const ADMIN_PREFIX = '/__admin/products';
+
+export const SEED_PRODUCTS: Record<string, MockProduct> = {
+  '/buy-refurbished-mobile-phones/apple-iphone-12-refurbished-mock0001': {
+    title: 'Apple iPhone 12 - Refurbished',
+    price: 28999,
+    mrp: 49900,
+    inStock: true,
+    condition: 'Fair',
+    ram: '4 GB',
+    storage: '64 GB',
+    color: 'Blue',
+    imageUrl: '/static/product/apple-iphone-12-blue.jpg',
+    response: 'ok',
+  },
+  '/buy-refurbished-mobile-phones/oneplus-9-pro-5g-refurbished-mock0002': {
+    title: 'OnePlus 9 Pro 5G - Refurbished',
+    price: 31999,
+    mrp: 64999,
+    inStock: false,
+    condition: 'Good',
+    ram: '8 GB',
+    storage: '128 GB',
+    color: 'Morning Mist',
+    imageUrl: '/static/product/oneplus-9-pro-morning-mist.jpg',
+    response: 'ok',
+  },
+  '/buy-refurbished-mobile-phones/samsung-galaxy-s21-fe-5g-refurbished-mock0003': {
+    title: 'Samsung Galaxy S21 FE 5G - Refurbished',
+    price: 20699,
+    mrp: 54999,
+    inStock: true,
+    condition: 'Good',
+    ram: '8 GB',
+    storage: '128 GB',
+    color: 'Olive',
+    imageUrl: '/static/product/samsung-galaxy-s21-fe-olive.jpg',
+    response: 'ok',
+    variants: [
+      { price: 18999, mrp: 54999, inStock: true, condition: 'Fair', ram: '8 GB', storage: '128 GB', color: 'Olive' },
+      { price: 25499, mrp: 58999, inStock: false, condition: 'Superb', ram: '8 GB', storage: '256 GB', color: 'Graphite' },
+    ],
+  },
+};
+
+const DEFAULT_PRODUCT: MockProduct = {
+  title: 'Mock Phone - Refurbished',
+  price: 9999,
+  mrp: 19999,
+  inStock: true,
+  condition: 'Good',
+  ram: '4 GB',
+  storage: '64 GB',
+  color: 'Black',
+  imageUrl: '/static/product/mock-phone.jpg',
+  response: 'ok',
+};
+
+function formatRupees(amount: number) {
+  return `₹${amount.toLocaleString('en-IN')}`;
+}
+
+/** Renders a product page in the markup the scraper's HTML patterns expect */
+export function renderProductPage(product: MockProduct): string {
+  const discount = product.mrp && product.mrp > product.price
+    ? Math.round(((product.mrp - product.price) / product.mrp) * 100)
+    : null;
+
+  const priceBlock = product.inStock
+    ? `<div class="flex items-center gap-2">
+            ${discount !== null ? `<div class="h1 text-error">-<!-- -->${discount}<!-- -->%</div>` : ''}
+            <span class="h1 text-surface-text" itemprop="price">${formatRupees(product.price)}</span>
+          </div>`
+    : '';
+  const mrpBlock = product.mrp
+    ? `<h6 class="subtitle1 line-through text-surface-text">${formatRupees(product.mrp)}</h6>`
+    : '';
+  const stockBanner = product.inStock
+    ? ''
+    : '<h6 class="subtitle1 text-center py-2 px-1 sm:py-3 w-full bg-primary/70 text-primary-text-contrast">Out of Stock</h6>';
+
+  // The default variant is listed first, like on the real site
+  const nextData = product.variants?.length
+    ? `<script id="__NEXT_DATA__" type="application/json">${JSON.stringify({
+        props: {
+          pageProps: {
+            productDetails: {
+              productName: product.title,
+              variants: [product, ...product.variants].map(variant => ({
+                conditionName: variant.condition,
+                ram: variant.ram,
+                storage: variant.storage,
+                colorName: variant.color,
+                salePrice: variant.price,
+                mrp: variant.mrp,
+                isOutOfStock: !variant.inStock,
+              })),
+            },
+          },
+        },
+      })}</script>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Buy Refurbished ${product.title} - Cashify</title>
+</head>
+<body>
+  <div id="__next">
+    <main>
+      <img src="${product.imageUrl}" alt="${product.title}">
+      ${stockBanner}
+      <h1 class="h4 text-surface-text">${product.title}</h1>
+      <div class="body2 mb-2 text-surface-text">Cashify Warranty, ${product.condition}, ${product.ram} / ${product.storage}, ${product.color}</div>
+      ${priceBlock}
+      ${mrpBlock}
+    </main>
+  </div>
+  ${nextData}
+</body>
+</html>
+`;
+}
+
+const BLOCKED_PAGE = '<!DOCTYPE html><html><head><title>Just a moment...</title></head><body></body></html>';
+
+async function readJson(req: IncomingMessage): Promise<Partial<MockProduct>> {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body ? JSON.parse(body) : {};
+}
+
+export function createMockCashifyServer(): Server {
+  let products = new Map(Object.entries(structuredClone(SEED_PRODUCTS)));
+
+  return createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    const send = (status: number, body: string, contentType = 'text/html; charset=utf-8') => {
+      res.writeHead(status, { 'Content-Type': contentType });
+      res.end(body);
+    };
+    const sendJson = (status: number, body: unknown) => send(status, JSON.stringify(body, null, 2), 'application/json');
+
+    try {
+      if (pathname === '/__admin/reset' && req.method === 'POST') {
+        products = new Map(Object.entries(structuredClone(SEED_PRODUCTS)));
+        return sendJson(200, Object.fromEntries(products));
+      }
+
+      if (pathname === ADMIN_PREFIX && req.method === 'GET') {
+        return sendJson(200, Object.fromEntries(products));
+      }
+
+      if (pathname.startsWith(`${ADMIN_PREFIX}/`)) {
+        const productPath = pathname.slice(ADMIN_PREFIX.length);
+
+        if (req.method === 'PUT') {
+          const product = { ...DEFAULT_PRODUCT, ...products.get(productPath), ...(await readJson(req)) };
+          products.set(productPath, product);
+          return sendJson(200, product);
+        }
+        if (req.method === 'DELETE') {
+          return sendJson(products.delete(productPath) ? 200 : 404, { deleted: productPath });
+        }
+        return sendJson(405, { error: 'Method not allowed' });
+      }
+
+      const product = products.get(pathname.replace(/\/+$/, ''));
+      if (!product || product.response === 'not_found') {
+        return send(404, '<!DOCTYPE html><html><head><title>Page not found</title></head><body></body></html>');
+      }
+
+      switch (product.response) {
+        case 'blocked':
+          return send(200, BLOCKED_PAGE);
+        case 'error':
+          return send(503, 'Service Unavailable', 'text/plain');
+        default:
+          return send(200, renderProductPage(product));
+      }
+    } catch (error) {
+      return sendJson(400, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
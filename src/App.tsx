@@ -1,38 +1,40 @@
 import React from 'react';
-import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom';
+import { AuthProvider } from './contexts/AuthContext';
 import { AuthPage } from './components/auth/AuthPage';
+import { GuestOnly, RequireAuth } from './components/auth/RequireAuth';
+import { AppLayout } from './components/layout/AppLayout';
 import { Dashboard } from './components/Dashboard';
+import { ProductPage } from './components/products/ProductPage';
+import { AlertsPage } from './components/alerts/AlertsPage';
+import { SettingsPage } from './components/settings/SettingsPage';
+import { ScraperHealth } from './components/admin/ScraperHealth';
 import { Toaster } from 'sonner';
-import { Loader2 } from 'lucide-react';
-
-function AppContent() {
-  const { user, loading } = useAuth();
-
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
-        <div className="text-center space-y-4">
-          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto" />
-          <p className="text-gray-600">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!user) {
-    return <AuthPage />;
-  }
-
-  return <Dashboard />;
-}
 
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <BrowserRouter>
+        <Routes>
+          <Route element={<GuestOnly />}>
+            <Route path="/login" element={<AuthPage />} />
+            <Route path="/signup" element={<AuthPage isSignUp />} />
+          </Route>
+          <Route element={<RequireAuth />}>
+            <Route element={<AppLayout />}>
+              <Route index element={<Dashboard />} />
+              <Route path="/products/:id" element={<ProductPage />} />
+              <Route path="/alerts" element={<AlertsPage />} />
+              <Route path="/settings" element={<SettingsPage />} />
+              <Route path="/admin/scraper-health" element={<ScraperHealth />} />
+            </Route>
+          </Route>
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+      </BrowserRouter>
       <Toaster position="top-right\" richColors />
     </AuthProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,483 @@
+import { useMemo, useState } from 'react';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Activity, AlertTriangle, Loader2, Search, ShieldAlert } from 'lucide-react';
+import { format, formatDistanceToNow, parseISO, startOfDay, startOfHour, subDays } from 'date-fns';
+import { useProfile } from '@/hooks/use-profile';
+import { useScrapeLog } from '@/hooks/use-scrape-log';
+import { ExtractionStrategy, ScrapedData } from '@/types';
+
+type TimeRange = '24H' | '7D' | '30D';
+
+interface SuccessBucket {
+  timestamp: number;
+  attempted: number;
+  succeeded: number;
+  rate: number | null;
+}
+
+interface FieldStrategies {
+  field: keyof ScrapedData;
+  total: number;
+  counts: Record<ExtractionStrategy | 'missing', number>;
+}
+
+const TIME_RANGES: { value: TimeRange; label: string; days: number }[] = [
+  { value: '24H', label: '24 Hours', days: 1 },
+  { value: '7D', label: '7 Days', days: 7 },
+  { value: '30D', label: '30 Days', days: 30 },
+];
+
+const STRATEGIES: ExtractionStrategy[] = ['json-ld', 'next-data', 'html'];
+
+// The fields a check needs, plus the image. Missing any but the image makes
+// the check partial.
+const TRACKED_FIELDS: (keyof ScrapedData)[] = ['title', 'sale_price', 'mrp', 'condition', 'storage', 'image_url'];
+
+const FAILURE_LABELS: Record<string, string> = {
+  NETWORK_ERROR: 'Network error',
+  HTTP_ERROR: 'Unexpected HTTP status',
+  NOT_FOUND: 'Listing removed',
+  BLOCKED: 'Blocked by bot protection',
+  PRICE_NOT_FOUND: 'No price on page',
+  VARIANT_NOT_FOUND: 'Variant no longer offered',
+  UPDATE_ERROR: 'Database update failed',
+  INTERNAL_ERROR: 'Internal error',
+};
+
+function formatPercent(part: number, total: number) {
+  return total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '—';
+}
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export function ScraperHealth() {
+  const { profile, loading: loadingProfile } = useProfile();
+  const [selectedRange, setSelectedRange] = useState<TimeRange>('7D');
+
+  const range = TIME_RANGES.find(r => r.value === selectedRange)!;
+  const since = useMemo(() => subDays(new Date(), range.days).toISOString(), [range.days]);
+  const { runs, attempts, loading } = useScrapeLog(since);
+
+  const totals = useMemo(() => {
+    const attempted = runs.reduce((sum, run) => sum + run.products_attempted, 0);
+    const succeeded = runs.reduce((sum, run) => sum + run.products_succeeded, 0);
+    const finished = runs.filter(run => run.duration_ms !== null);
+    const averageDuration = finished.length > 0
+      ? Math.round(finished.reduce((sum, run) => sum + run.duration_ms!, 0) / finished.length)
+      : null;
+
+    return {
+      attempted,
+      succeeded,
+      crashed: runs.filter(run => run.error !== null).length,
+      averageDuration,
+    };
+  }, [runs]);
+
+  // Product success rate per hour for the last day, per day otherwise
+  const successData = useMemo(() => {
+    const bucketStart = selectedRange === '24H' ? startOfHour : startOfDay;
+    const buckets = new Map<number, SuccessBucket>();
+
+    for (const run of runs) {
+      const timestamp = bucketStart(parseISO(run.started_at)).getTime();
+      const bucket = buckets.get(timestamp) ?? { timestamp, attempted: 0, succeeded: 0, rate: null };
+      bucket.attempted += run.products_attempted;
+      bucket.succeeded += run.products_succeeded;
+      buckets.set(timestamp, bucket);
+    }
+
+    return [...buckets.values()]
+      .map(bucket => ({
+        ...bucket,
+        rate: bucket.attempted > 0 ? (bucket.succeeded / bucket.attempted) * 100 : null,
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }, [runs, selectedRange]);
+
+  const failureReasons = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const run of runs) {
+      for (const [reason, count] of Object.entries(run.failures_by_reason)) {
+        counts[reason] = (counts[reason] ?? 0) + count;
+      }
+    }
+    return Object.entries(counts).sort(([, a], [, b]) => b - a);
+  }, [runs]);
+
+  // Which strategy produced each field on readable pages. A field drifting
+  // from structured data to the HTML fallback, or to missing, usually means
+  // Cashify changed its markup.
+  const fieldStrategies = useMemo(() => {
+    const readable = attempts.filter(attempt => attempt.status !== 'failed');
+    return TRACKED_FIELDS.map((field): FieldStrategies => {
+      const counts = { 'json-ld': 0, 'next-data': 0, html: 0, missing: 0 };
+      for (const attempt of readable) {
+        const strategy = attempt.sources[field];
+        if (strategy) {
+          counts[strategy]++;
+        } else {
+          counts.missing++;
+        }
+      }
+      return { field, total: readable.length, counts };
+    });
+  }, [attempts]);
+
+  const recentFailures = useMemo(
+    () => attempts.filter(attempt => attempt.status === 'failed').slice(0, 10),
+    [attempts]
+  );
+
+  const formatXAxisTick = (tickItem: number) => {
+    return format(new Date(tickItem), selectedRange === '24H' ? 'HH:mm' : 'MMM dd');
+  };
+
+  if (loadingProfile) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!profile?.is_admin) {
+    return (
+      <Card className="bg-white/90 backdrop-blur-sm border-white/20">
+        <CardContent className="text-center py-12">
+          <ShieldAlert className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Admins Only</h3>
+          <p className="text-gray-600">You don't have access to the scraper health page.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const lastRun = runs[0];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Scraper Health</h2>
+          <p className="text-sm text-gray-600">
+            Every run of the price updater and every listing it scraped
+          </p>
+        </div>
+        <div className="flex space-x-1">
+          {TIME_RANGES.map((option) => (
+            <Button
+              key={option.value}
+              variant={selectedRange === option.value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setSelectedRange(option.value)}
+              className="text-xs"
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-green-50 rounded-lg p-4">
+              <div className="text-sm text-green-600 font-medium">Success Rate</div>
+              <div className="text-xl font-bold text-green-900">
+                {formatPercent(totals.succeeded, totals.attempted)}
+              </div>
+              <div className="text-xs text-green-600">
+                {totals.succeeded.toLocaleString()} of {totals.attempted.toLocaleString()} product checks
+              </div>
+            </div>
+
+            <div className="bg-blue-50 rounded-lg p-4">
+              <div className="text-sm text-blue-600 font-medium">Runs</div>
+              <div className="text-xl font-bold text-blue-900">{runs.length.toLocaleString()}</div>
+              <div className={`text-xs ${totals.crashed > 0 ? 'text-red-600' : 'text-blue-600'}`}>
+                {totals.crashed > 0 ? `${totals.crashed} crashed` : 'None crashed'}
+              </div>
+            </div>
+
+            <div className="bg-purple-50 rounded-lg p-4">
+              <div className="text-sm text-purple-600 font-medium">Average Duration</div>
+              <div className="text-xl font-bold text-purple-900">
+                {formatDuration(totals.averageDuration)}
+              </div>
+            </div>
+
+            <div className={`rounded-lg p-4 ${lastRun?.error ? 'bg-red-50' : 'bg-gray-50'}`}>
+              <div className={`text-sm font-medium ${lastRun?.error ? 'text-red-600' : 'text-gray-600'}`}>
+                Last Run
+              </div>
+              <div className={`text-xl font-bold ${lastRun?.error ? 'text-red-900' : 'text-gray-900'}`}>
+                {lastRun ? `${formatDistanceToNow(parseISO(lastRun.started_at))} ago` : 'Never'}
+              </div>
+              {lastRun && (
+                <div className={`text-xs ${lastRun.error ? 'text-red-600' : 'text-gray-600'}`}>
+                  {lastRun.error
+                    ? 'Crashed'
+                    : lastRun.finished_at
+                      ? `${lastRun.products_succeeded}/${lastRun.products_attempted} products updated`
+                      : 'Still running'}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Success rate over time */}
+          <Card className="bg-white/90 backdrop-blur-sm border-white/20">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Activity className="h-5 w-5 text-blue-600" />
+                <span>Success Rate</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {successData.length > 0 ? (
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={successData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                      <defs>
+                        <linearGradient id="successGradient" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor="#16a34a" stopOpacity={0.3}/>
+                          <stop offset="95%" stopColor="#16a34a" stopOpacity={0}/>
+                        </linearGradient>
+                      </defs>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                      <XAxis
+                        dataKey="timestamp"
+                        type="number"
+                        scale="time"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={formatXAxisTick}
+                        stroke="#64748b"
+                        fontSize={12}
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <YAxis
+                        domain={[0, 100]}
+                        tickFormatter={(value) => `${value}%`}
+                        stroke="#64748b"
+                        fontSize={12}
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <Tooltip
+                        formatter={(value: number, _name, item) => [
+                          `${value.toFixed(1)}% (${item.payload.succeeded}/${item.payload.attempted})`,
+                          'Products updated',
+                        ]}
+                        labelFormatter={(label) => format(new Date(label), selectedRange === '24H' ? 'MMM dd, HH:mm' : 'MMM dd, yyyy')}
+                        contentStyle={{
+                          backgroundColor: 'white',
+                          border: '1px solid #e2e8f0',
+                          borderRadius: '8px',
+                          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                        }}
+                      />
+                      <Area
+                        type="monotone"
+                        dataKey="rate"
+                        stroke="#16a34a"
+                        strokeWidth={2}
+                        fill="url(#successGradient)"
+                        dot={{ fill: '#16a34a', strokeWidth: 2, r: 3 }}
+                      />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-center text-gray-600 py-8">No runs in this period.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Failure reasons */}
+            <Card className="bg-white/90 backdrop-blur-sm border-white/20">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <AlertTriangle className="h-5 w-5 text-red-600" />
+                  <span>Failures by Reason</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {failureReasons.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Reason</TableHead>
+                        <TableHead className="text-right">Products</TableHead>
+                        <TableHead className="text-right">Share</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {failureReasons.map(([reason, count]) => (
+                        <TableRow key={reason}>
+                          <TableCell>{FAILURE_LABELS[reason] ?? reason}</TableCell>
+                          <TableCell className="text-right">{count.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">
+                            {formatPercent(count, totals.attempted - totals.succeeded)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center text-gray-600 py-8">No failed checks in this period.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Extraction strategies */}
+            <Card className="bg-white/90 backdrop-blur-sm border-white/20">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Search className="h-5 w-5 text-purple-600" />
+                  <span>Extraction Strategies</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {fieldStrategies[0]?.total > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        {STRATEGIES.map(strategy => (
+                          <TableHead key={strategy} className="text-right">{strategy}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Missing</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {fieldStrategies.map(({ field, total, counts }) => (
+                        <TableRow key={field}>
+                          <TableCell className="font-mono text-xs">{field}</TableCell>
+                          {STRATEGIES.map(strategy => (
+                            <TableCell key={strategy} className="text-right">
+                              {formatPercent(counts[strategy], total)}
+                            </TableCell>
+                          ))}
+                          <TableCell className={`text-right ${counts.missing > 0 ? 'text-red-600 font-medium' : ''}`}>
+                            {formatPercent(counts.missing, total)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center text-gray-600 py-8">No readable pages in this period.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Recent failures */}
+          {recentFailures.length > 0 && (
+            <Card className="bg-white/90 backdrop-blur-sm border-white/20">
+              <CardHeader>
+                <CardTitle>Recent Failed Scrapes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Listing</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Products</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recentFailures.map(attempt => (
+                      <TableRow key={attempt.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDistanceToNow(parseISO(attempt.attempted_at))} ago
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate">
+                          <a
+                            href={attempt.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:underline"
+                          >
+                            {attempt.url}
+                          </a>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="text-xs text-red-600 border-red-200">
+                            {attempt.failure_reason && (FAILURE_LABELS[attempt.failure_reason] ?? attempt.failure_reason)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{attempt.products_count}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Recent runs */}
+          <Card className="bg-white/90 backdrop-blur-sm border-white/20">
+            <CardHeader>
+              <CardTitle>Recent Runs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead className="text-right">Duration</TableHead>
+                    <TableHead className="text-right">Listings</TableHead>
+                    <TableHead className="text-right">Updated</TableHead>
+                    <TableHead className="text-right">Failed</TableHead>
+                    <TableHead className="text-right">Left Over</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.slice(0, 20).map(run => (
+                    <TableRow key={run.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(parseISO(run.started_at), 'MMM dd, HH:mm')}
+                        {run.error && (
+                          <Badge variant="destructive" className="ml-2 text-xs" title={run.error}>
+                            Crashed
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="capitalize">{run.trigger}</TableCell>
+                      <TableCell className="text-right">{formatDuration(run.duration_ms)}</TableCell>
+                      <TableCell className="text-right">{run.listings_attempted}</TableCell>
+                      <TableCell className="text-right">{run.products_succeeded}</TableCell>
+                      <TableCell className={`text-right ${run.products_failed > 0 ? 'text-red-600' : ''}`}>
+                        {run.products_failed}
+                      </TableCell>
+                      <TableCell className="text-right">{run.remaining}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
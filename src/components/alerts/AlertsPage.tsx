@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PriceAlert, Product } from '@/types';
+import { supabase } from '@/lib/supabase';
+import { describeAlert } from '@/lib/alerts';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRowChanges } from '@/hooks/use-row-changes';
+
+interface AlertWithProduct extends PriceAlert {
+  products: Pick<Product, 'id' | 'title' | 'sale_price' | 'image_url'> | null;
+}
+
+/** `/alerts`: every alert of the user, linking to each product's alerts */
+export function AlertsPage() {
+  const [alerts, setAlerts] = useState<AlertWithProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchAlerts = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('price_alerts')
+        .select('*, products(id, title, sale_price, image_url)')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setAlerts(data || []);
+    } catch (error) {
+      console.error('Error fetching alerts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  // Changes carry no product, so load the list again
+  useRowChanges('price_alerts', user ? `user_id=eq.${user.id}` : null, fetchAlerts);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm border-white/20 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Bell className="h-5 w-5 text-purple-600" />
+          <span>Price Alerts</span>
+        </CardTitle>
+        <CardDescription>
+          All your alerts across tracked products. Open a product to change its alerts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {alerts.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No price alerts yet. Set one from any product with the bell button.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {alerts.map((alert) => (
+              <Link
+                key={alert.id}
+                to={`/products/${alert.product_id}?tab=alerts&alerts=open`}
+                className="flex items-center justify-between gap-4 py-3 hover:bg-gray-50 rounded-lg px-2"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-sm text-gray-900 truncate">
+                    {alert.products?.title ?? 'Removed product'}
+                  </div>
+                  <div className="text-sm text-gray-700">{describeAlert(alert)}</div>
+                  <div className="text-xs text-gray-500">
+                    {alert.last_triggered_at
+                      ? `Last triggered ${formatDistanceToNow(new Date(alert.last_triggered_at))} ago`
+                      : `Created ${new Date(alert.created_at).toLocaleDateString()}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {alert.products && alert.products.sale_price !== null && (
+                    <span className="text-sm font-semibold text-gray-900">
+                      ₹{alert.products.sale_price.toLocaleString()}
+                    </span>
+                  )}
+                  <Badge variant={alert.is_active ? 'default' : 'secondary'} className="text-xs">
+                    {alert.is_active ? 'Active' : 'Inactive'}
+                  </Badge>
+                  {alert.is_active && !alert.is_armed && (
+                    <Badge variant="outline" className="text-xs">
+                      Triggered
+                    </Badge>
+                  )}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
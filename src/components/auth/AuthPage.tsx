@@ -1,9 +1,15 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { LoginForm } from './LoginForm';
 import { TrendingUp } from 'lucide-react';
 
-export function AuthPage() {
-  const [isSignUp, setIsSignUp] = useState(false);
+interface AuthPageProps {
+  isSignUp?: boolean;
+}
+
+export function AuthPage({ isSignUp = false }: AuthPageProps) {
+  const navigate = useNavigate();
+  const location = useLocation();
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
@@ -45,7 +51,7 @@ export function AuthPage() {
         {/* Login Form */}
         <div>
           <LoginForm 
-            onToggleMode={() => setIsSignUp(!isSignUp)} 
+            onToggleMode={() => navigate(isSignUp ? '/login' : '/signup', { replace: true, state: location.state })}
             isSignUp={isSignUp} 
           />
         </div>
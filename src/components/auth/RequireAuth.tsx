@@ -0,0 +1,53 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+
+/** Where a signed-out user was headed, to return them there after signing in */
+interface RedirectState {
+  from?: string;
+}
+
+function AuthLoading() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+      <div className="text-center space-y-4">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto" />
+        <p className="text-gray-600">Loading...</p>
+      </div>
+    </div>
+  );
+}
+
+/** Renders its routes for signed-in users and sends everyone else to sign in */
+export function RequireAuth() {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <AuthLoading />;
+  }
+
+  if (!user) {
+    const state: RedirectState = { from: `${location.pathname}${location.search}${location.hash}` };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  return <Outlet />;
+}
+
+/** Renders its routes for signed-out users and sends everyone else on */
+export function GuestOnly() {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <AuthLoading />;
+  }
+
+  if (user) {
+    const { from } = (location.state ?? {}) as RedirectState;
+    return <Navigate to={from ?? '/'} replace />;
+  }
+
+  return <Outlet />;
+}
@@ -1,11 +1,21 @@
 import React from 'react';
+import { Link, NavLink } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { TrendingUp, LogOut } from 'lucide-react';
+import { TrendingUp, LogOut, Activity, Package, Bell, Settings } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/hooks/use-profile';
+
+const NAV_ITEMS = [
+  { to: '/', label: 'My products', icon: Package, adminOnly: false },
+  { to: '/alerts', label: 'Alerts', icon: Bell, adminOnly: false },
+  { to: '/settings', label: 'Settings', icon: Settings, adminOnly: false },
+  { to: '/admin/scraper-health', label: 'Scraper health', icon: Activity, adminOnly: true },
+];
 
 export function Header() {
   const { user, signOut } = useAuth();
+  const { profile } = useProfile();
 
   const getInitials = (email: string) => {
     return email.substring(0, 2).toUpperCase();
@@ -16,10 +26,26 @@ export function Header() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-16">
           {/* Logo */}
-          <div className="flex items-center space-x-2">
+          <Link to="/" className="flex items-center space-x-2">
             <TrendingUp className="h-8 w-8 text-blue-600" />
             <h1 className="text-2xl font-bold text-gray-900">PriceTracker</h1>
-          </div>
+          </Link>
+
+          {/* Navigation */}
+          <nav className="flex items-center space-x-1">
+            {NAV_ITEMS.filter(item => !item.adminOnly || profile?.is_admin).map(({ to, label, icon: Icon }) => (
+              <Button key={to} variant="ghost" size="sm" asChild>
+                <NavLink
+                  to={to}
+                  end
+                  className={({ isActive }) => isActive ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                >
+                  <Icon className="h-4 w-4" />
+                  <span className="hidden md:inline ml-2">{label}</span>
+                </NavLink>
+              </Button>
+            ))}
+          </nav>
 
           {/* User Menu */}
           <div className="flex items-center space-x-4">
@@ -4,11 +4,15 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Bell, BellOff, Trash2, Loader2 } from 'lucide-react';
-import { Product, PriceAlert } from '@/types';
+import { Product, PriceAlert, AlertRuleType, AlertMode, AlertRearm } from '@/types';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
+import { applyRowChange, useRowChanges } from '@/hooks/use-row-changes';
+import { COOLDOWN_OPTIONS, describeAlert, describeCooldown } from '@/lib/alerts';
 import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
 
 interface PriceAlertDialogProps {
   product: Product;
@@ -16,8 +20,55 @@ interface PriceAlertDialogProps {
   onOpenChange: (open: boolean) => void;
 }
 
+interface RuleOption {
+  label: string;
+  /** Kind of value the rule needs, if any */
+  input?: 'price' | 'percent';
+  placeholder?: string;
+  help: string;
+}
+
+const RULE_OPTIONS: Record<AlertRuleType, RuleOption> = {
+  target_price: {
+    label: 'Price drops to target',
+    input: 'price',
+    placeholder: 'Enter target price',
+    help: "You'll receive an email when the price drops to or below your target price.",
+  },
+  percent_drop: {
+    label: 'Price drops by a percentage',
+    input: 'percent',
+    placeholder: 'Enter percentage drop',
+    help: "You'll receive an email when the price falls this far below the current price.",
+  },
+  all_time_low: {
+    label: 'New all-time low',
+    help: "You'll receive an email when the price drops below the lowest price seen so far.",
+  },
+  discount_above: {
+    label: 'Discount reaches a percentage',
+    input: 'percent',
+    placeholder: 'Enter discount percentage',
+    help: "You'll receive an email when the discount off the MRP reaches this percentage.",
+  },
+  any_change: {
+    label: 'Any price change',
+    help: "You'll receive an email whenever the price changes.",
+  },
+  price_above: {
+    label: 'Price rises above',
+    input: 'price',
+    placeholder: 'Enter price',
+    help: "You'll receive an email when the price rises above this amount.",
+  },
+};
+
 export function PriceAlertDialog({ product, open, onOpenChange }: PriceAlertDialogProps) {
-  const [targetPrice, setTargetPrice] = useState('');
+  const [ruleType, setRuleType] = useState<AlertRuleType>('target_price');
+  const [ruleValue, setRuleValue] = useState('');
+  const [mode, setMode] = useState<AlertMode>('once');
+  const [rearm, setRearm] = useState<AlertRearm>('on_reset');
+  const [cooldownMinutes, setCooldownMinutes] = useState(60);
   const [alerts, setAlerts] = useState<PriceAlert[]>([]);
   const [loading, setLoading] = useState(false);
   const [fetchingAlerts, setFetchingAlerts] = useState(false);
@@ -51,20 +102,64 @@ export function PriceAlertDialog({ product, open, onOpenChange }: PriceAlertDial
     }
   };
 
-  const handleCreateAlert = async () => {
-    if (!user || !targetPrice) {
-      toast.error('Please enter a target price');
-      return;
+  // Alerts that fire while the dialog is open update in place
+  useRowChanges<PriceAlert>('price_alerts', open && user ? `product_id=eq.${product.id}` : null, (change) => {
+    setAlerts(current => applyRowChange(current, change));
+  });
+
+  const rule = RULE_OPTIONS[ruleType];
+
+  // Builds the rule columns for the selected type, or reports why it can't
+  const buildRule = (): Partial<PriceAlert> | string => {
+    if (!rule.input) {
+      return { rule_type: ruleType };
     }
 
-    const price = parseFloat(targetPrice);
-    if (isNaN(price) || price <= 0) {
-      toast.error('Please enter a valid price');
+    const value = parseFloat(ruleValue);
+    if (isNaN(value) || value <= 0) {
+      return rule.input === 'price' ? 'Please enter a valid price' : 'Please enter a valid percentage';
+    }
+
+    switch (ruleType) {
+      case 'target_price':
+        if (product.sale_price !== null && value >= product.sale_price) {
+          return 'Target price should be lower than current price';
+        }
+        return { rule_type: ruleType, target_price: value };
+      case 'percent_drop':
+        if (value >= 100) {
+          return 'Percentage drop should be less than 100';
+        }
+        if (product.sale_price === null) {
+          return 'A percentage drop needs a known current price';
+        }
+        return { rule_type: ruleType, threshold: value, baseline_price: product.sale_price };
+      case 'discount_above':
+        if (value >= 100) {
+          return 'Discount should be less than 100%';
+        }
+        return { rule_type: ruleType, threshold: value };
+      case 'price_above':
+        if (product.sale_price !== null && value <= product.sale_price) {
+          return 'Price should be higher than current price';
+        }
+        return { rule_type: ruleType, threshold: value };
+      default:
+        return { rule_type: ruleType };
+    }
+  };
+
+  const handleCreateAlert = async () => {
+    if (!user) return;
+
+    if (rule.input && !ruleValue) {
+      toast.error(rule.input === 'price' ? 'Please enter a price' : 'Please enter a percentage');
       return;
     }
 
-    if (price >= product.sale_price) {
-      toast.error('Target price should be lower than current price');
+    const ruleFields = buildRule();
+    if (typeof ruleFields === 'string') {
+      toast.error(ruleFields);
       return;
     }
 
@@ -75,15 +170,18 @@ export function PriceAlertDialog({ product, open, onOpenChange }: PriceAlertDial
         .insert({
           product_id: product.id,
           user_id: user.id,
-          target_price: price,
+          ...ruleFields,
+          mode,
+          rearm,
+          cooldown_minutes: cooldownMinutes,
         })
         .select()
         .single();
 
       if (error) throw error;
 
-      setAlerts([data, ...alerts]);
-      setTargetPrice('');
+      setAlerts(current => applyRowChange(current, { type: 'INSERT', row: data }));
+      setRuleValue('');
       toast.success('Price alert created successfully!');
     } catch (error) {
       console.error('Error creating alert:', error);
@@ -94,17 +192,20 @@ export function PriceAlertDialog({ product, open, onOpenChange }: PriceAlertDial
   };
 
   const handleToggleAlert = async (alertId: string, isActive: boolean) => {
+    // Reactivated alerts start armed again; deactivating leaves the arming alone
+    const changes = isActive ? { is_active: false } : { is_active: true, is_armed: true };
+
     try {
       const { error } = await supabase
         .from('price_alerts')
-        .update({ is_active: !isActive, updated_at: new Date().toISOString() })
+        .update({ ...changes, updated_at: new Date().toISOString() })
         .eq('id', alertId);
 
       if (error) throw error;
 
       setAlerts(alerts.map(alert => 
         alert.id === alertId 
-          ? { ...alert, is_active: !isActive }
+          ? { ...alert, ...changes }
           : alert
       ));
 
@@ -141,7 +242,7 @@ export function PriceAlertDialog({ product, open, onOpenChange }: PriceAlertDial
             <span>Price Alerts</span>
           </DialogTitle>
           <DialogDescription>
-            Get notified via email when the price drops below your target
+            Get notified via email when the price meets your conditions
           </DialogDescription>
         </DialogHeader>
 
@@ -153,7 +254,7 @@ export function PriceAlertDialog({ product, open, onOpenChange }: PriceAlertDial
             </h4>
             <div className="flex items-center justify-between mt-1">
               <span className="text-lg font-bold text-gray-900">
-                ₹{product.sale_price.toLocaleString()}
+                {product.sale_price !== null ? `₹${product.sale_price.toLocaleString()}` : 'Unknown'}
               </span>
               <Badge className="text-xs">Current Price</Badge>
             </div>
@@ -161,24 +262,94 @@ export function PriceAlertDialog({ product, open, onOpenChange }: PriceAlertDial
 
           {/* Create New Alert */}
           <div className="space-y-3">
-            <Label htmlFor="targetPrice">Set Target Price</Label>
+            <Label htmlFor="ruleType">Alert Me When</Label>
+            <Select
+              value={ruleType}
+              onValueChange={(value) => {
+                setRuleType(value as AlertRuleType);
+                setRuleValue('');
+              }}
+              disabled={loading}
+            >
+              <SelectTrigger id="ruleType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RULE_OPTIONS) as AlertRuleType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {RULE_OPTIONS[type].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={mode}
+                onValueChange={(value) => setMode(value as AlertMode)}
+                disabled={loading}
+              >
+                <SelectTrigger aria-label="Alert mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="once">Notify once</SelectItem>
+                  <SelectItem value="recurring">Notify every time</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={String(cooldownMinutes)}
+                onValueChange={(value) => setCooldownMinutes(Number(value))}
+                disabled={loading || mode === 'once'}
+              >
+                <SelectTrigger aria-label="Cooldown">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COOLDOWN_OPTIONS.map((option) => (
+                    <SelectItem key={option.minutes} value={String(option.minutes)}>
+                      {option.minutes === 0 ? option.label : `Wait ${option.label}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {mode === 'recurring' && (
+              <Select
+                value={rearm}
+                onValueChange={(value) => setRearm(value as AlertRearm)}
+                disabled={loading}
+              >
+                <SelectTrigger aria-label="Re-arm rule">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="on_reset">Notify again after the condition clears</SelectItem>
+                  <SelectItem value="after_cooldown">Notify again after the cooldown</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
             <div className="flex space-x-2">
-              <div className="relative flex-1">
-                <span className="absolute left-3 top-3 text-gray-500">₹</span>
-                <Input
-                  id="targetPrice"
-                  type="number"
-                  placeholder="Enter target price"
-                  value={targetPrice}
-                  onChange={(e) => setTargetPrice(e.target.value)}
-                  className="pl-8"
-                  disabled={loading}
-                />
-              </div>
+              {rule.input && (
+                <div className="relative flex-1">
+                  <span className="absolute left-3 top-3 text-gray-500">
+                    {rule.input === 'price' ? '₹' : '%'}
+                  </span>
+                  <Input
+                    id="ruleValue"
+                    type="number"
+                    placeholder={rule.placeholder}
+                    value={ruleValue}
+                    onChange={(e) => setRuleValue(e.target.value)}
+                    className="pl-8"
+                    disabled={loading}
+                  />
+                </div>
+              )}
               <Button 
                 onClick={handleCreateAlert} 
-                disabled={loading || !targetPrice}
+                disabled={loading || (!!rule.input && !ruleValue)}
                 size="default"
+                className={rule.input ? undefined : 'flex-1'}
               >
                 {loading ? (
                   <Loader2 className="h-4 w-4 animate-spin" />
@@ -188,7 +359,7 @@ export function PriceAlertDialog({ product, open, onOpenChange }: PriceAlertDial
               </Button>
             </div>
             <p className="text-xs text-gray-600">
-              You'll receive an email when the price drops to or below your target price.
+              {rule.help}
             </p>
           </div>
 
@@ -213,10 +384,17 @@ export function PriceAlertDialog({ product, open, onOpenChange }: PriceAlertDial
                     <div className="flex items-center space-x-3">
                       <div>
                         <div className="font-medium text-sm">
-                          ₹{alert.target_price.toLocaleString()}
+                          {describeAlert(alert)}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {alert.mode === 'recurring'
+                            ? `Every time · ${describeCooldown(alert.cooldown_minutes)} cooldown`
+                            : 'Once'}
                         </div>
                         <div className="text-xs text-gray-500">
-                          Created {new Date(alert.created_at).toLocaleDateString()}
+                          {alert.last_triggered_at
+                            ? `Triggered ${alert.trigger_count} ${alert.trigger_count === 1 ? 'time' : 'times'}, last ${formatDistanceToNow(new Date(alert.last_triggered_at))} ago`
+                            : `Created ${new Date(alert.created_at).toLocaleDateString()}`}
                         </div>
                       </div>
                       <Badge 
@@ -225,6 +403,15 @@ export function PriceAlertDialog({ product, open, onOpenChange }: PriceAlertDial
                       >
                         {alert.is_active ? 'Active' : 'Inactive'}
                       </Badge>
+                      {alert.is_active && !alert.is_armed && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs"
+                          title="Waits for the condition to clear before notifying again"
+                        >
+                          Triggered
+                        </Badge>
+                      )}
                     </div>
                     <div className="flex items-center space-x-1">
                       <Button
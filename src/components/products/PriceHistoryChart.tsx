@@ -1,11 +1,12 @@
 import React, { useState, useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart, ReferenceArea, ReferenceLine } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { TrendingDown, TrendingUp, Calendar, BarChart3 } from 'lucide-react';
-import { Product, PriceEntry } from '@/types';
-import { format, subDays, subMonths, subYears, isAfter, parseISO } from 'date-fns';
+import { Product } from '@/types';
+import { format, subDays, subMonths, subYears, parseISO } from 'date-fns';
+import { usePricePoints } from '@/hooks/use-price-points';
 
 interface PriceHistoryChartProps {
   product: Product;
@@ -14,62 +15,81 @@ interface PriceHistoryChartProps {
 type TimeRange = '1M' | '6M' | '1Y' | 'ALL';
 
 interface ChartDataPoint {
-  date: string;
-  price: number;
-  formattedDate: string;
   timestamp: number;
+  price: number | null;
+  checks: number;
+}
+
+interface Period {
+  start: number;
+  end: number;
 }
 
 export function PriceHistoryChart({ product }: PriceHistoryChartProps) {
   const [selectedRange, setSelectedRange] = useState<TimeRange>('1M');
 
-  const chartData = useMemo(() => {
-    if (!product.price_history || product.price_history.length === 0) {
-      return [];
-    }
-
+  const since = useMemo(() => {
     const now = new Date();
-    let cutoffDate: Date;
 
     switch (selectedRange) {
       case '1M':
-        cutoffDate = subDays(now, 30);
-        break;
+        return subDays(now, 30).toISOString();
       case '6M':
-        cutoffDate = subMonths(now, 6);
-        break;
+        return subMonths(now, 6).toISOString();
       case '1Y':
-        cutoffDate = subYears(now, 1);
-        break;
+        return subYears(now, 1).toISOString();
       case 'ALL':
-        cutoffDate = new Date(0); // Beginning of time
-        break;
+        return undefined;
       default:
-        cutoffDate = subDays(now, 30);
+        return subDays(now, 30).toISOString();
     }
+  }, [selectedRange]);
 
-    const filteredHistory = product.price_history
-      .filter((entry: PriceEntry) => {
-        const entryDate = parseISO(entry.checked_at);
-        return isAfter(entryDate, cutoffDate);
-      })
-      .sort((a: PriceEntry, b: PriceEntry) => 
-        new Date(a.checked_at).getTime() - new Date(b.checked_at).getTime()
-      );
+  const { count: totalPoints, loading: loadingTotal } = usePricePoints(product.listing_id, { limit: 1, refreshKey: product.last_checked });
+  const { points, count: pointsInRange } = usePricePoints(product.listing_id, { since, refreshKey: product.last_checked });
 
-    return filteredHistory.map((entry: PriceEntry) => {
-      const date = parseISO(entry.checked_at);
-      return {
-        date: entry.checked_at,
-        price: entry.price,
-        formattedDate: format(date, selectedRange === '1M' ? 'MMM dd' : 'MMM yyyy'),
-        timestamp: date.getTime(),
-      };
+  // Each run of identical checks is drawn from its first to its last check, so
+  // an unchanged price shows as a flat segment. Out-of-stock and failed runs
+  // have no price and break the line.
+  const chartData = useMemo(() => {
+    const data: ChartDataPoint[] = [];
+    for (const point of points) {
+      const price = point.in_stock && point.price !== null ? point.price : null;
+      const start = parseISO(point.checked_at).getTime();
+      const end = parseISO(point.last_checked_at).getTime();
+
+      data.push({ timestamp: start, price, checks: point.check_count });
+      if (end > start) {
+        data.push({ timestamp: end, price, checks: point.check_count });
+      }
+    }
+    return data;
+  }, [points]);
+
+  // An out-of-stock run lasts until the next run starts, or until its last
+  // check if it is the most recent one
+  const outOfStockPeriods = useMemo(() => {
+    const periods: Period[] = [];
+    points.forEach((point, index) => {
+      if (point.in_stock !== false) return;
+      periods.push({
+        start: parseISO(point.checked_at).getTime(),
+        end: parseISO(points[index + 1]?.checked_at ?? point.last_checked_at).getTime(),
+      });
     });
-  }, [product.price_history, selectedRange]);
+    return periods;
+  }, [points]);
+
+  const failedChecks = useMemo(
+    () => points.filter((point) => point.outcome === 'failed'),
+    [points]
+  );
 
   const priceStats = useMemo(() => {
-    if (chartData.length === 0) {
+    const prices = chartData.flatMap(d => (d.price !== null ? [d.price] : []));
+    // Without priced checks in range, fall back to the stored price if known
+    if (prices.length === 0) {
+      if (product.sale_price === null) return null;
       return {
         currentPrice: product.sale_price,
         highestPrice: product.sale_price,
@@ -80,7 +100,6 @@ export function PriceHistoryChart({ product }: PriceHistoryChartProps) {
       };
     }
 
-    const prices = chartData.map(d => d.price);
     const currentPrice = prices[prices.length - 1];
     const firstPrice = prices[0];
     const highestPrice = Math.max(...prices);
@@ -113,12 +132,11 @@ export function PriceHistoryChart({ product }: PriceHistoryChartProps) {
     return `₹${value.toLocaleString()}`;
   };
 
-  const formatXAxisTick = (tickItem: string) => {
-    const date = parseISO(tickItem);
-    return format(date, selectedRange === '1M' ? 'dd' : 'MMM');
+  const formatXAxisTick = (tickItem: number) => {
+    return format(new Date(tickItem), selectedRange === '1M' ? 'dd' : 'MMM');
   };
 
-  if (!product.price_history || product.price_history.length < 2) {
+  if (!loadingTotal && totalPoints === 0) {
     return (
       <Card className="bg-white/90 backdrop-blur-sm border-white/20">
         <CardHeader>
@@ -167,108 +185,155 @@ export function PriceHistoryChart({ product }: PriceHistoryChartProps) {
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Price Statistics */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          <div className="bg-blue-50 rounded-lg p-4">
-            <div className="text-sm text-blue-600 font-medium">Current Price</div>
-            <div className="text-xl font-bold text-blue-900">
-              ₹{priceStats.currentPrice.toLocaleString()}
-            </div>
-          </div>
-          
-          <div className="bg-green-50 rounded-lg p-4">
-            <div className="text-sm text-green-600 font-medium">Lowest Price</div>
-            <div className="text-xl font-bold text-green-900">
-              ₹{priceStats.lowestPrice.toLocaleString()}
-            </div>
-          </div>
-          
-          <div className="bg-red-50 rounded-lg p-4">
-            <div className="text-sm text-red-600 font-medium">Highest Price</div>
-            <div className="text-xl font-bold text-red-900">
-              ₹{priceStats.highestPrice.toLocaleString()}
+        {priceStats && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-blue-50 rounded-lg p-4">
+              <div className="text-sm text-blue-600 font-medium">Current Price</div>
+              <div className="text-xl font-bold text-blue-900">
+                ₹{priceStats.currentPrice.toLocaleString()}
+              </div>
             </div>
-          </div>
-          
-          <div className={`rounded-lg p-4 ${
-            priceStats.trend === 'down' ? 'bg-green-50' : 
-            priceStats.trend === 'up' ? 'bg-red-50' : 'bg-gray-50'
-          }`}>
-            <div className={`text-sm font-medium ${
-              priceStats.trend === 'down' ? 'text-green-600' : 
-              priceStats.trend === 'up' ? 'text-red-600' : 'text-gray-600'
-            }`}>
-              Price Change
+            
+            <div className="bg-green-50 rounded-lg p-4">
+              <div className="text-sm text-green-600 font-medium">Lowest Price</div>
+              <div className="text-xl font-bold text-green-900">
+                ₹{priceStats.lowestPrice.toLocaleString()}
+              </div>
             </div>
-            <div className={`text-xl font-bold flex items-center space-x-1 ${
-              priceStats.trend === 'down' ? 'text-green-900' : 
-              priceStats.trend === 'up' ? 'text-red-900' : 'text-gray-900'
-            }`}>
-              {priceStats.trend === 'down' && <TrendingDown className="h-4 w-4" />}
-              {priceStats.trend === 'up' && <TrendingUp className="h-4 w-4" />}
-              <span>
-                {priceStats.priceChange >= 0 ? '+' : ''}₹{priceStats.priceChange.toLocaleString()}
-              </span>
+            
+            <div className="bg-red-50 rounded-lg p-4">
+              <div className="text-sm text-red-600 font-medium">Highest Price</div>
+              <div className="text-xl font-bold text-red-900">
+                ₹{priceStats.highestPrice.toLocaleString()}
+              </div>
             </div>
-            <div className={`text-xs ${
-              priceStats.trend === 'down' ? 'text-green-600' : 
-              priceStats.trend === 'up' ? 'text-red-600' : 'text-gray-600'
+            
+            <div className={`rounded-lg p-4 ${
+              priceStats.trend === 'down' ? 'bg-green-50' : 
+              priceStats.trend === 'up' ? 'bg-red-50' : 'bg-gray-50'
             }`}>
-              {priceStats.priceChangePercent >= 0 ? '+' : ''}{priceStats.priceChangePercent.toFixed(1)}%
+              <div className={`text-sm font-medium ${
+                priceStats.trend === 'down' ? 'text-green-600' : 
+                priceStats.trend === 'up' ? 'text-red-600' : 'text-gray-600'
+              }`}>
+                Price Change
+              </div>
+              <div className={`text-xl font-bold flex items-center space-x-1 ${
+                priceStats.trend === 'down' ? 'text-green-900' : 
+                priceStats.trend === 'up' ? 'text-red-900' : 'text-gray-900'
+              }`}>
+                {priceStats.trend === 'down' && <TrendingDown className="h-4 w-4" />}
+                {priceStats.trend === 'up' && <TrendingUp className="h-4 w-4" />}
+                <span>
+                  {priceStats.priceChange >= 0 ? '+' : ''}₹{priceStats.priceChange.toLocaleString()}
+                </span>
+              </div>
+              <div className={`text-xs ${
+                priceStats.trend === 'down' ? 'text-green-600' : 
+                priceStats.trend === 'up' ? 'text-red-600' : 'text-gray-600'
+              }`}>
+                {priceStats.priceChangePercent >= 0 ? '+' : ''}{priceStats.priceChangePercent.toFixed(1)}%
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Chart */}
         {chartData.length > 0 ? (
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
-                <defs>
-                  <linearGradient id="priceGradient" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
-                    <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
-                  </linearGradient>
-                </defs>
-                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-                <XAxis 
-                  dataKey="date"
-                  tickFormatter={formatXAxisTick}
-                  stroke="#64748b"
-                  fontSize={12}
-                  tickLine={false}
-                  axisLine={false}
-                />
-                <YAxis 
-                  tickFormatter={(value) => `₹${(value / 1000).toFixed(0)}k`}
-                  stroke="#64748b"
-                  fontSize={12}
-                  tickLine={false}
-                  axisLine={false}
-                />
-                <Tooltip 
-                  formatter={(value) => [formatTooltipValue(value), 'Price']}
-                  labelFormatter={(label) => {
-                    const date = parseISO(label);
-                    return format(date, 'MMM dd, yyyy HH:mm');
-                  }}
-                  contentStyle={{
-                    backgroundColor: 'white',
-                    border: '1px solid #e2e8f0',
-                    borderRadius: '8px',
-                    boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-                  }}
-                />
-                <Area
-                  type="monotone"
-                  dataKey="price"
-                  stroke="#3b82f6"
-                  strokeWidth={2}
-                  fill="url(#priceGradient)"
-                  dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
-                  activeDot={{ r: 6, stroke: '#3b82f6', strokeWidth: 2, fill: 'white' }}
-                />
-              </AreaChart>
-            </ResponsiveContainer>
+          <div className="space-y-2">
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                  <defs>
+                    <linearGradient id="priceGradient" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
+                      <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis 
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={formatXAxisTick}
+                    stroke="#64748b"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis 
+                    tickFormatter={(value) => `₹${(value / 1000).toFixed(0)}k`}
+                    stroke="#64748b"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <Tooltip 
+                    formatter={(value, _name, item) => [
+                      formatTooltipValue(value),
+                      item.payload.checks > 1 ? `Price (unchanged over ${item.payload.checks} checks)` : 'Price',
+                    ]}
+                    labelFormatter={(label) => format(new Date(label), 'MMM dd, yyyy HH:mm')}
+                    contentStyle={{
+                      backgroundColor: 'white',
+                      border: '1px solid #e2e8f0',
+                      borderRadius: '8px',
+                      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                    }}
+                  />
+                  {outOfStockPeriods.map((period) => (
+                    <ReferenceArea
+                      key={`oos-${period.start}`}
+                      x1={period.start}
+                      x2={period.end}
+                      fill="#94a3b8"
+                      fillOpacity={0.2}
+                      ifOverflow="extendDomain"
+                    />
+                  ))}
+                  {failedChecks.map((point) => (
+                    <ReferenceLine
+                      key={`failed-${point.id}`}
+                      x={parseISO(point.checked_at).getTime()}
+                      stroke="#dc2626"
+                      strokeDasharray="4 4"
+                      ifOverflow="extendDomain"
+                    />
+                  ))}
+                  <Area
+                    type="stepAfter"
+                    dataKey="price"
+                    stroke="#3b82f6"
+                    strokeWidth={2}
+                    fill="url(#priceGradient)"
+                    dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
+                    activeDot={{ r: 6, stroke: '#3b82f6', strokeWidth: 2, fill: 'white' }}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+            {pointsInRange > points.length && (
+              <p className="text-xs text-gray-500">
+                Showing the latest {points.length} of {pointsInRange} price records in this range.
+              </p>
+            )}
+            {(outOfStockPeriods.length > 0 || failedChecks.length > 0) && (
+              <div className="flex items-center justify-end space-x-4 text-xs text-gray-500">
+                {outOfStockPeriods.length > 0 && (
+                  <div className="flex items-center space-x-1">
+                    <span className="inline-block w-3 h-3 rounded-sm bg-slate-400/30" />
+                    <span>Out of stock</span>
+                  </div>
+                )}
+                {failedChecks.length > 0 && (
+                  <div className="flex items-center space-x-1">
+                    <span className="inline-block w-3 border-t-2 border-dashed border-red-600" />
+                    <span>Check failed</span>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         ) : (
           <div className="text-center py-8">
@@ -283,7 +348,7 @@ export function PriceHistoryChart({ product }: PriceHistoryChartProps) {
         )}
 
         {/* Insights */}
-        {chartData.length > 1 && (
+        {chartData.length > 1 && priceStats && (
           <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-lg p-4">
             <h4 className="font-semibold text-gray-900 mb-2">💡 Price Insights</h4>
             <div className="space-y-2 text-sm text-gray-700">
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -21,26 +22,35 @@ import {
 import { Product } from '@/types';
 import { formatDistanceToNow } from 'date-fns';
 import { PriceAlertDialog } from './PriceAlertDialog';
-import { ProductDetailsDialog } from './ProductDetailsDialog';
+import { usePricePoints } from '@/hooks/use-price-points';
+import { usePriceChangeCount } from '@/hooks/use-price-change-count';
 
 interface ProductCardProps {
   product: Product;
   onDelete: (id: string) => void;
   onRefresh?: (id: string) => void;
+  /** Briefly highlights the card after a live update changed its price */
+  priceJustChanged?: boolean;
 }
 
-export function ProductCard({ product, onDelete, onRefresh }: ProductCardProps) {
+export function ProductCard({ product, onDelete, onRefresh, priceJustChanged = false }: ProductCardProps) {
   const [showPriceAlert, setShowPriceAlert] = useState(false);
-  const [showProductDetails, setShowProductDetails] = useState(false);
   
   const discountPercentage = parseFloat(product.discount.replace('%', ''));
-  const savings = product.mrp - product.sale_price;
+  const savings = product.mrp !== null && product.sale_price !== null ? product.mrp - product.sale_price : null;
+  
+  const { points: recentPoints } = usePricePoints(product.listing_id, {
+    limit: 2,
+    pricedOnly: true,
+    refreshKey: product.last_checked,
+  });
+  const priceChangeCount = usePriceChangeCount(product.listing_id, product.last_checked);
   
   const getPriceChange = () => {
-    if (product.price_history.length < 2) return null;
+    if (product.sale_price === null || recentPoints.length < 2 || recentPoints[0].price === null) return null;
     
     const currentPrice = product.sale_price;
-    const previousPrice = product.price_history[product.price_history.length - 2].price;
+    const previousPrice = recentPoints[0].price;
     
     if (currentPrice < previousPrice) {
       return { type: 'down', amount: previousPrice - currentPrice };
@@ -67,17 +77,15 @@ export function ProductCard({ product, onDelete, onRefresh }: ProductCardProps)
     }
   };
 
-  const isRecentlyChecked = () => {
-    const lastChecked = new Date(product.last_checked);
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    return lastChecked > oneHourAgo;
+  const isDueForUpdate = () => {
+    return new Date(product.next_check_at) <= new Date();
   };
 
   return (
     <>
       <Card className={`group hover:shadow-lg transition-all duration-300 bg-white/90 backdrop-blur-sm border-white/20 ${
         product.is_out_of_stock ? 'opacity-75 border-red-200' : ''
-      }`}>
+      } ${priceJustChanged ? 'ring-2 ring-blue-300 ring-offset-2' : ''}`}>
         <CardHeader className="pb-3">
           <div className="flex justify-between items-start space-x-3">
             <div className="flex-1 min-w-0">
@@ -138,7 +146,7 @@ export function ProductCard({ product, onDelete, onRefresh }: ProductCardProps)
           )}
 
           {/* Price Information */}
-          {!product.is_out_of_stock && (
+          {!product.is_out_of_stock && product.sale_price !== null && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <div>
@@ -161,30 +169,34 @@ export function ProductCard({ product, onDelete, onRefresh }: ProductCardProps)
                       </div>
                     )}
                   </div>
-                  <div className="flex items-center space-x-2 text-sm text-gray-600">
-                    <span className="line-through">₹{product.mrp.toLocaleString()}</span>
-                    <span className="text-green-600 font-medium">
-                      {product.discount} off
-                    </span>
-                  </div>
+                  {product.mrp !== null && (
+                    <div className="flex items-center space-x-2 text-sm text-gray-600">
+                      <span className="line-through">₹{product.mrp.toLocaleString()}</span>
+                      <span className="text-green-600 font-medium">
+                        {product.discount} off
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
-              <div className="bg-green-50 rounded-lg p-3">
-                <div className="text-sm text-green-800">
-                  <span className="font-medium">You save: </span>
-                  ₹{savings.toLocaleString()}
+              {savings !== null && (
+                <div className="bg-green-50 rounded-lg p-3">
+                  <div className="text-sm text-green-800">
+                    <span className="font-medium">You save: </span>
+                    ₹{savings.toLocaleString()}
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           )}
 
           {/* Price History Summary */}
-          {product.price_history.length > 1 && (
+          {priceChangeCount > 0 && (
             <div className="bg-blue-50 rounded-lg p-3">
               <div className="text-sm text-blue-800">
-                <span className="font-medium">Price tracked for: </span>
-                {product.price_history.length} updates
+                <span className="font-medium">Price history: </span>
+                {priceChangeCount} price {priceChangeCount === 1 ? 'change' : 'changes'}
               </div>
             </div>
           )}
@@ -197,7 +209,37 @@ export function ProductCard({ product, onDelete, onRefresh }: ProductCardProps)
                 Last checked {formatDistanceToNow(new Date(product.last_checked))} ago
               </span>
             </div>
-            {!isRecentlyChecked() && (
+            {product.paused_at ? (
+              <div className="flex items-center space-x-2">
+                <Badge
+                  variant="outline"
+                  className="text-xs text-red-600 border-red-200"
+                  title={product.last_check_error ?? undefined}
+                >
+                  Paused — listing unavailable
+                </Badge>
+                {onRefresh && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    onClick={() => onRefresh(product.id)}
+                    className="h-auto p-0 text-xs"
+                  >
+                    Retry now
+                  </Button>
+                )}
+              </div>
+            ) : product.last_check_status === 'failed' ? (
+              <Badge
+                variant="outline"
+                className="text-xs text-red-600 border-red-200"
+                title={product.last_check_error ?? undefined}
+              >
+                {product.consecutive_failures > 1
+                  ? `Failed ${product.consecutive_failures} checks in a row`
+                  : 'Last check failed'}
+              </Badge>
+            ) : isDueForUpdate() && (
               <Badge variant="outline" className="text-xs text-orange-600 border-orange-200">
                 Due for update
               </Badge>
@@ -206,14 +248,11 @@ export function ProductCard({ product, onDelete, onRefresh }: ProductCardProps)
 
           {/* Actions */}
           <div className="flex space-x-2">
-            <Button
-              variant="outline"
-              size="sm"
-              className="flex-1"
-              onClick={() => setShowProductDetails(true)}
-            >
-              <Eye className="w-4 h-4 mr-2" />
-              View Details
+            <Button variant="outline" size="sm" className="flex-1" asChild>
+              <Link to={`/products/${product.id}`}>
+                <Eye className="w-4 h-4 mr-2" />
+                View Details
+              </Link>
             </Button>
             {!product.is_out_of_stock && (
               <Button
@@ -248,12 +287,6 @@ export function ProductCard({ product, onDelete, onRefresh }: ProductCardProps)
       </Card>
 
       {/* Dialogs */}
-      <ProductDetailsDialog
-        product={product}
-        open={showProductDetails}
-        onOpenChange={setShowProductDetails}
-      />
-
       {!product.is_out_of_stock && (
         <PriceAlertDialog
           product={product}
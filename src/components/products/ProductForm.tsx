@@ -2,27 +2,40 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, Link2, Search } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
+import { parseProductUrl, supportedRetailerNames } from '../../../supabase/functions/_shared/retailers';
+import { ScrapedVariant } from '@/types';
+import type { QuotaUsage } from '@/hooks/use-quotas';
+import type { Quotas } from '../../../supabase/functions/_shared/quotas';
 
 interface ProductFormProps {
   onProductAdded: () => void;
+  quotas: Quotas;
+  /** Null until it has loaded */
+  usage: QuotaUsage | null;
 }
 
-export function ProductForm({ onProductAdded }: ProductFormProps) {
+/** A page offering several variants, returned by scrape-product for the user to choose from */
+interface VariantChoice {
+  title: string;
+  variants: ScrapedVariant[];
+  trackedVariantKeys: string[];
+}
+
+export function ProductForm({ onProductAdded, quotas, usage }: ProductFormProps) {
   const [url, setUrl] = useState('');
   const [loading, setLoading] = useState(false);
+  const [choice, setChoice] = useState<VariantChoice | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
   const { session } = useAuth();
 
-  const validateCashifyUrl = (url: string): boolean => {
-    try {
-      const urlObj = new URL(url);
-      return urlObj.hostname === 'www.cashify.in' && url.includes('buy-refurbished');
-    } catch {
-      return false;
-    }
+  const validateProductUrl = (url: string): boolean => {
+    return parseProductUrl(url) !== null;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -33,8 +46,8 @@ export function ProductForm({ onProductAdded }: ProductFormProps) {
       return;
     }
 
-    if (!validateCashifyUrl(url)) {
-      toast.error('Please enter a valid Cashify product URL');
+    if (!validateProductUrl(url)) {
+      toast.error(`Please enter a valid ${supportedRetailerNames()} product URL`);
       return;
     }
 
@@ -43,6 +56,11 @@ export function ProductForm({ onProductAdded }: ProductFormProps) {
       return;
     }
 
+    if (choice && selectedKeys.length === 0) {
+      toast.error('Please choose at least one variant to track');
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -53,7 +71,7 @@ export function ProductForm({ onProductAdded }: ProductFormProps) {
           'Authorization': `Bearer ${session.access_token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url }),
+        body: JSON.stringify(choice ? { url, variantKeys: selectedKeys } : { url }),
       });
 
       const data = await response.json();
@@ -62,8 +80,23 @@ export function ProductForm({ onProductAdded }: ProductFormProps) {
         throw new Error(data.error || 'Failed to track product');
       }
 
-      toast.success('Product added to tracking successfully!');
+      // The page offers several variants; ask which ones to follow
+      if (data.requiresVariantSelection) {
+        setChoice({
+          title: data.title,
+          variants: data.variants,
+          trackedVariantKeys: data.trackedVariantKeys,
+        });
+        setSelectedKeys([]);
+        return;
+      }
+
+      toast.success(data.products?.length > 1
+        ? `Tracking ${data.products.length} variants successfully!`
+        : 'Product added to tracking successfully!');
       setUrl('');
+      setChoice(null);
+      setSelectedKeys([]);
       onProductAdded();
     } catch (error) {
       console.error('Error adding product:', error);
@@ -73,6 +106,17 @@ export function ProductForm({ onProductAdded }: ProductFormProps) {
     }
   };
 
+  const handleUrlChange = (value: string) => {
+    setUrl(value);
+    // Variants belong to the page they were listed for
+    setChoice(null);
+    setSelectedKeys([]);
+  };
+
+  const toggleVariant = (key: string, checked: boolean) => {
+    setSelectedKeys(keys => checked ? [...keys, key] : keys.filter(k => k !== key));
+  };
+
   return (
     <Card className="bg-white/90 backdrop-blur-sm border-white/20 shadow-lg">
       <CardHeader>
@@ -81,7 +125,7 @@ export function ProductForm({ onProductAdded }: ProductFormProps) {
           <span>Track New Product</span>
         </CardTitle>
         <CardDescription>
-          Enter a Cashify product URL to start tracking its price
+          Enter a {supportedRetailerNames()} product URL to start tracking its price
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -95,26 +139,69 @@ export function ProductForm({ onProductAdded }: ProductFormProps) {
                 type="url"
                 placeholder="https://www.cashify.in/buy-refurbished-mobile-phones/..."
                 value={url}
-                onChange={(e) => setUrl(e.target.value)}
+                onChange={(e) => handleUrlChange(e.target.value)}
                 className="pl-10"
                 disabled={loading}
               />
             </div>
           </div>
+          {choice && (
+            <div className="space-y-2">
+              <Label>Choose variants of {choice.title || 'this product'}</Label>
+              <div className="divide-y rounded-lg border">
+                {choice.variants.map((variant) => {
+                  const tracked = choice.trackedVariantKeys.includes(variant.key);
+                  const id = `variant-${variant.key}`;
+                  return (
+                    <div key={variant.key} className="flex items-center gap-3 p-3">
+                      <Checkbox
+                        id={id}
+                        checked={tracked || selectedKeys.includes(variant.key)}
+                        onCheckedChange={(checked) => toggleVariant(variant.key, checked === true)}
+                        disabled={loading || tracked}
+                      />
+                      <Label htmlFor={id} className="flex-1 cursor-pointer font-normal">
+                        {variant.label || 'Default variant'}
+                      </Label>
+                      {tracked ? (
+                        <Badge variant="secondary">Tracking</Badge>
+                      ) : variant.is_out_of_stock ? (
+                        <Badge variant="outline">Out of stock</Badge>
+                      ) : null}
+                      {variant.sale_price !== null && (
+                        <span className="text-sm font-semibold text-gray-900">
+                          ₹{variant.sale_price.toLocaleString()}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
           <Button type="submit" className="w-full" disabled={loading}>
             {loading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Adding Product...
               </>
+            ) : choice ? (
+              selectedKeys.length > 1 ? `Track ${selectedKeys.length} Variants` : 'Track Variant'
             ) : (
               'Track Product'
             )}
           </Button>
+          {usage && (
+            <p className="text-center text-xs text-gray-500">
+              {usage.products} of {quotas.maxProducts} products tracked
+              {' · '}
+              {Math.max(quotas.addsPerDay - usage.adds, 0)} adds left today
+            </p>
+          )}
         </form>
         <div className="mt-4 p-3 bg-blue-50 rounded-lg">
           <p className="text-sm text-blue-800">
-            <strong>Tip:</strong> We currently support tracking products from Cashify.in. 
+            <strong>Tip:</strong> We currently support tracking products from {supportedRetailerNames()}. 
             Make sure to copy the complete product URL.
           </p>
         </div>
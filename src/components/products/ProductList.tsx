@@ -1,26 +1,87 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { ProductCard } from './ProductCard';
+import { ProductToolbar } from './ProductToolbar';
 import { Product } from '@/types';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
-import { Loader2, Package, RefreshCw } from 'lucide-react';
+import { applyRowChange, useRowChanges } from '@/hooks/use-row-changes';
+import { useProductQuery } from '@/hooks/use-product-query';
+import { useActiveAlerts } from '@/hooks/use-active-alerts';
+import { useRecentDrops } from '@/hooks/use-recent-drops';
+import {
+  DEFAULT_DROP_WINDOW_DAYS,
+  DEFAULT_PRODUCT_QUERY,
+  applyProductQuery,
+} from '@/lib/product-query';
+import { Loader2, Package, RefreshCw, SearchX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 
+/** How long a card stays highlighted after its price changed */
+const PRICE_HIGHLIGHT_MS = 5000;
+
 interface ProductListProps {
   refreshTrigger: number;
+  /** Manual refreshes left this hour, null until known */
+  refreshesLeft: number | null;
+  /** Called after anything that changes quota usage */
+  onQuotaChange: () => void;
 }
 
-export function ProductList({ refreshTrigger }: ProductListProps) {
+export function ProductList({ refreshTrigger, refreshesLeft, onQuotaChange }: ProductListProps) {
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [priceChangedIds, setPriceChangedIds] = useState<Set<string>>(new Set());
+  const highlightTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
   const { user, session } = useAuth();
 
   useEffect(() => {
     fetchProducts();
   }, [user, refreshTrigger]);
 
+  useEffect(() => {
+    const timers = highlightTimers.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  const highlightPriceChange = (productId: string) => {
+    clearTimeout(highlightTimers.current.get(productId));
+    setPriceChangedIds(ids => new Set(ids).add(productId));
+    highlightTimers.current.set(productId, setTimeout(() => {
+      highlightTimers.current.delete(productId);
+      setPriceChangedIds(ids => {
+        const next = new Set(ids);
+        next.delete(productId);
+        return next;
+      });
+    }, PRICE_HIGHLIGHT_MS));
+  };
+
+  // Background checks update the user's products while the dashboard is open
+  useRowChanges<Product>('products', user ? `user_id=eq.${user.id}` : null, (change) => {
+    if (change.type === 'UPDATE') {
+      const previous = products.find(p => p.id === change.row.id);
+      if (previous && previous.sale_price !== change.row.sale_price) {
+        highlightPriceChange(change.row.id);
+      }
+    }
+    setProducts(current => applyRowChange(current, change));
+  });
+
+  const [query, setQuery] = useProductQuery();
+  const alertedProductIds = useActiveAlerts();
+  // Price history is only loaded while a filter or sort needs it
+  const recentDrops = useRecentDrops(
+    products,
+    query.droppedWithinDays ?? DEFAULT_DROP_WINDOW_DAYS,
+    query.droppedWithinDays !== null || query.sort === 'drop',
+  );
+  const visibleProducts = useMemo(
+    () => applyProductQuery(products, query, { alertedProductIds, recentDrops }),
+    [products, query, alertedProductIds, recentDrops],
+  );
+
   const fetchProducts = async () => {
     if (!user) return;
 
@@ -59,6 +120,7 @@ export function ProductList({ refreshTrigger }: ProductListProps) {
 
       setProducts(products.filter(p => p.id !== productId));
       toast.success('Product removed from tracking');
+      onQuotaChange();
     } catch (error) {
       console.error('Error deleting product:', error);
       toast.error('Failed to remove product');
@@ -80,7 +142,7 @@ export function ProductList({ refreshTrigger }: ProductListProps) {
           'Authorization': `Bearer ${session.access_token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({}),
+        body: JSON.stringify({ userId: user?.id }),
       });
 
       const data = await response.json();
@@ -89,13 +151,14 @@ export function ProductList({ refreshTrigger }: ProductListProps) {
         throw new Error(data.error || 'Failed to refresh prices');
       }
 
-      toast.success(`Updated ${data.updated} products`);
+      toast.success(data.message);
       await fetchProducts(); // Refresh the list
     } catch (error) {
       console.error('Error refreshing prices:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to refresh prices');
     } finally {
       setRefreshing(false);
+      onQuotaChange();
     }
   };
 
@@ -120,11 +183,17 @@ export function ProductList({ refreshTrigger }: ProductListProps) {
         throw new Error(data.error || 'Failed to refresh product');
       }
 
-      toast.success('Product updated successfully');
+      if (data.updated > 0) {
+        toast.success('Product updated successfully');
+      } else {
+        toast.error('Could not check this product, please try again later');
+      }
       await fetchProducts(); // Refresh the list
     } catch (error) {
       console.error('Error refreshing product:', error);
-      toast.error('Failed to refresh product');
+      toast.error(error instanceof Error ? error.message : 'Failed to refresh product');
+    } finally {
+      onQuotaChange();
     }
   };
 
@@ -154,35 +223,61 @@ export function ProductList({ refreshTrigger }: ProductListProps) {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-semibold text-gray-900">
-          Currently Tracking ({products.length})
+          Currently Tracking ({visibleProducts.length === products.length
+            ? products.length
+            : `${visibleProducts.length} of ${products.length}`})
         </h2>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={handleRefreshAll}
-          disabled={refreshing}
-          className="flex items-center space-x-2"
-        >
-          <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
-          <span>{refreshing ? 'Updating...' : 'Refresh All'}</span>
-        </Button>
+        <div className="flex items-center gap-3">
+          {refreshesLeft !== null && (
+            <span className="text-xs text-gray-500">
+              {refreshesLeft} refresh{refreshesLeft === 1 ? '' : 'es'} left this hour
+            </span>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRefreshAll}
+            disabled={refreshing || refreshesLeft === 0}
+            className="flex items-center space-x-2"
+          >
+            <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
+            <span>{refreshing ? 'Updating...' : 'Refresh All'}</span>
+          </Button>
+        </div>
       </div>
+
+      <ProductToolbar products={products} query={query} onQueryChange={setQuery} />
+
+      {visibleProducts.length === 0 && (
+        <div className="text-center py-12">
+          <SearchX className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No products match these filters
+          </h3>
+          <Button variant="outline" size="sm" onClick={() => setQuery({ ...DEFAULT_PRODUCT_QUERY, sort: query.sort })}>
+            Clear filters
+          </Button>
+        </div>
+      )}
       
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {products.map((product) => (
+        {visibleProducts.map((product) => (
           <ProductCard
             key={product.id}
             product={product}
             onDelete={handleDelete}
             onRefresh={handleRefreshSingle}
+            priceJustChanged={priceChangedIds.has(product.id)}
           />
         ))}
       </div>
       
       <div className="mt-6 p-4 bg-blue-50 rounded-lg">
         <p className="text-sm text-blue-800">
-          <strong>Auto-Update:</strong> All products are automatically checked for price changes every hour. 
-          You can also manually refresh individual products or all products using the refresh buttons.
+          <strong>Auto-Update:</strong> Products are checked automatically, more often when their price moves a lot
+          or is close to one of your alerts, and this page updates as soon as they are. Listings that keep failing are
+          checked less often and eventually paused. You can also manually refresh individual products or all products
+          using the refresh buttons.
         </p>
       </div>
     </div>
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, Package } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Product } from '@/types';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRowChanges } from '@/hooks/use-row-changes';
+import { ProductDetails, type ProductDetailsTab } from './ProductDetails';
+
+const TABS: ProductDetailsTab[] = ['overview', 'price-history', 'alerts'];
+
+/**
+ * `/products/:id`. The open tab (`?tab=`) and the alerts dialog
+ * (`?alerts=open`) are kept in the URL so either can be linked to.
+ */
+export function ProductPage() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const tabParam = searchParams.get('tab') as ProductDetailsTab | null;
+  const tab = tabParam && TABS.includes(tabParam) ? tabParam : 'overview';
+  const alertsOpen = searchParams.get('alerts') === 'open';
+
+  useEffect(() => {
+    if (!user || !id) return;
+
+    let cancelled = false;
+
+    const fetchProduct = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('products')
+          .select('*')
+          .eq('id', id)
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        if (!cancelled) setProduct(data);
+      } catch (error) {
+        console.error('Error fetching product:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchProduct();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, id]);
+
+  useRowChanges<Product>('products', user && id ? `id=eq.${id}` : null, (change) => {
+    if (change.type === 'DELETE') {
+      if (change.id === id) setProduct(null);
+    } else if (change.row.user_id === user?.id) {
+      setProduct(change.row);
+    }
+  });
+
+  const updateSearchParams = (changes: Record<string, string | null>) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === null) {
+          next.delete(key);
+        } else {
+          next.set(key, value);
+        }
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to my products
+        </Link>
+      </Button>
+
+      {product ? (
+        <ProductDetails
+          product={product}
+          tab={tab}
+          onTabChange={(tab) => updateSearchParams({ tab: tab === 'overview' ? null : tab })}
+          alertsOpen={alertsOpen}
+          onAlertsOpenChange={(open) => updateSearchParams({ alerts: open ? 'open' : null })}
+        />
+      ) : (
+        <div className="text-center py-12">
+          <Package className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            Product not found
+          </h3>
+          <p className="text-gray-600">
+            It may have been removed from tracking, or belong to another account.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { Product } from '@/types';
+import {
+  DEFAULT_PRODUCT_QUERY,
+  DROP_WINDOWS_DAYS,
+  PRODUCT_SORTS,
+  isFiltered,
+  type ProductQuery,
+  type ProductSort,
+  type StockFilter,
+} from '@/lib/product-query';
+
+interface ProductToolbarProps {
+  /** All tracked products, to offer the values they actually have */
+  products: Product[];
+  query: ProductQuery;
+  onQueryChange: (query: ProductQuery) => void;
+}
+
+// Radix selects cannot have an empty value
+const ANY = 'any';
+
+function distinctValues(products: Product[], field: 'condition' | 'storage' | 'color') {
+  return [...new Set(products.map(product => product[field]).filter((value): value is string => !!value))].sort();
+}
+
+function describeDropWindow(days: number) {
+  return days === 1 ? 'Dropped in the last day' : `Dropped in the last ${days} days`;
+}
+
+export function ProductToolbar({ products, query, onQueryChange }: ProductToolbarProps) {
+  const update = (changes: Partial<ProductQuery>) => onQueryChange({ ...query, ...changes });
+
+  const valueFilters = [
+    { field: 'condition', label: 'Any condition' },
+    { field: 'storage', label: 'Any storage' },
+    { field: 'color', label: 'Any colour' },
+  ] as const;
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-white/90 p-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+        <Input
+          placeholder="Search tracked products..."
+          value={query.search}
+          onChange={(e) => update({ search: e.target.value })}
+          className="pl-10"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {valueFilters.map(({ field, label }) => {
+          const values = distinctValues(products, field);
+          if (values.length < 2 && !query[field]) return null;
+          return (
+            <Select
+              key={field}
+              value={query[field] || ANY}
+              onValueChange={(value) => update({ [field]: value === ANY ? '' : value })}
+            >
+              <SelectTrigger className="h-9 w-auto min-w-[9rem]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{label}</SelectItem>
+                {values.map(value => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          );
+        })}
+
+        <Select value={query.stock} onValueChange={(value) => update({ stock: value as StockFilter })}>
+          <SelectTrigger className="h-9 w-auto min-w-[9rem]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any stock status</SelectItem>
+            <SelectItem value="in-stock">In stock</SelectItem>
+            <SelectItem value="out-of-stock">Out of stock</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={query.droppedWithinDays === null ? ANY : String(query.droppedWithinDays)}
+          onValueChange={(value) => update({ droppedWithinDays: value === ANY ? null : Number(value) })}
+        >
+          <SelectTrigger className="h-9 w-auto min-w-[9rem]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any price movement</SelectItem>
+            {DROP_WINDOWS_DAYS.map(days => (
+              <SelectItem key={days} value={String(days)}>{describeDropWindow(days)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center space-x-2 px-2">
+          <Checkbox
+            id="has-alert"
+            checked={query.hasAlert}
+            onCheckedChange={(checked) => update({ hasAlert: checked === true })}
+          />
+          <Label htmlFor="has-alert" className="cursor-pointer font-normal">
+            Has active alert
+          </Label>
+        </div>
+
+        <div className="ml-auto flex items-center gap-2">
+          {isFiltered(query) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onQueryChange({ ...DEFAULT_PRODUCT_QUERY, sort: query.sort })}
+            >
+              <X className="mr-1 h-4 w-4" />
+              Clear filters
+            </Button>
+          )}
+          <Select value={query.sort} onValueChange={(value) => update({ sort: value as ProductSort })}>
+            <SelectTrigger className="h-9 w-auto min-w-[11rem]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PRODUCT_SORTS).map(([sort, label]) => (
+                <SelectItem key={sort} value={sort}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Settings, LogOut } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/hooks/use-profile';
+import { useQuotas } from '@/hooks/use-quotas';
+
+/** `/settings`: the signed-in user's account, plan and how much of it they use */
+export function SettingsPage() {
+  const { user, signOut } = useAuth();
+  const { profile } = useProfile();
+  const { quotas, usage } = useQuotas();
+
+  const limits = [
+    { label: 'Products tracked', used: usage?.products, limit: quotas.maxProducts },
+    { label: 'Products added today', used: usage?.adds, limit: quotas.addsPerDay },
+    { label: 'Manual refreshes this hour', used: usage?.refreshes, limit: quotas.refreshesPerHour },
+  ];
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <Card className="bg-white/90 backdrop-blur-sm border-white/20 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Settings className="h-5 w-5 text-blue-600" />
+            <span>Settings</span>
+          </CardTitle>
+          <CardDescription>Your account and plan</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{user?.email}</p>
+              <p className="text-xs text-gray-500">Price alerts are emailed to this address</p>
+            </div>
+            <Badge variant="outline" className="capitalize">
+              {profile?.tier ?? 'free'} plan
+            </Badge>
+          </div>
+
+          <div className="space-y-4">
+            {limits.map(({ label, used, limit }) => (
+              <div key={label} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-700">{label}</span>
+                  <span className="text-gray-500">
+                    {used ?? '—'} of {limit}
+                  </span>
+                </div>
+                <Progress value={limit > 0 && used !== undefined ? Math.min((used / limit) * 100, 100) : 0} />
+              </div>
+            ))}
+          </div>
+
+          <Button variant="outline" onClick={signOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
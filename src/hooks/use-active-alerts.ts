@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRowChanges } from '@/hooks/use-row-changes';
+
+/** Ids of the signed-in user's products with at least one active alert */
+export function useActiveAlerts() {
+  const { user } = useAuth();
+  const [productIds, setProductIds] = useState<Set<string>>(new Set());
+
+  const fetchAlerts = useCallback(async () => {
+    if (!user) {
+      setProductIds(new Set());
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('price_alerts')
+        .select('product_id')
+        .eq('user_id', user.id)
+        .eq('is_active', true);
+
+      if (error) throw error;
+
+      setProductIds(new Set((data || []).map(alert => alert.product_id)));
+    } catch (error) {
+      console.error('Error fetching active alerts:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  // Alerts are created, deactivated and fire elsewhere; recount on any change
+  useRowChanges('price_alerts', user ? `user_id=eq.${user.id}` : null, fetchAlerts);
+
+  return productIds;
+}
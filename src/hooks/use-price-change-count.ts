@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Counts how often a listing's in-stock price changed. Loads again whenever
+ * `refreshKey` changes, e.g. the product's `last_checked`.
+ */
+export function usePriceChangeCount(listingId: string, refreshKey?: string) {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchCount = async () => {
+      try {
+        const { data, error } = await supabase.rpc('count_price_changes', { p_listing_id: listingId });
+        if (error) throw error;
+
+        if (!cancelled) setCount(data ?? 0);
+      } catch (error) {
+        console.error('Error counting price changes:', error);
+      }
+    };
+
+    fetchCount();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listingId, refreshKey]);
+
+  return count;
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { PricePoint } from '@/types';
+
+interface UsePricePointsOptions {
+  /** Only return points whose run overlaps the time from this ISO timestamp on */
+  since?: string;
+  /** Only return the most recent `limit` points, at most `MAX_PRICE_POINTS` */
+  limit?: number;
+  /** Skip failed and out-of-stock checks */
+  pricedOnly?: boolean;
+  enabled?: boolean;
+  /** Loads the points again whenever this changes, e.g. the product's `last_checked` */
+  refreshKey?: string;
+}
+
+/** Most points one query loads, whatever the range or `limit` */
+const MAX_PRICE_POINTS = 500;
+
+/**
+ * Loads a listing's price points oldest-first. Only the most recent
+ * `MAX_PRICE_POINTS` (or `limit`, if lower) are loaded, so long-tracked
+ * products don't pull their whole history. `count` is the number of points in
+ * range, ignoring the cap.
+ */
+export function usePricePoints(listingId: string, { since, limit, pricedOnly, enabled = true, refreshKey }: UsePricePointsOptions) {
+  const [points, setPoints] = useState<PricePoint[]>([]);
+  const [count, setCount] = useState(0);
+  const [loading, setLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    const fetchPoints = async () => {
+      setLoading(true);
+      try {
+        let query = supabase
+          .from('price_points')
+          .select('*', { count: 'exact' })
+          .eq('listing_id', listingId)
+          .order('checked_at', { ascending: false });
+
+        if (since) {
+          query = query.gte('last_checked_at', since);
+        }
+        if (pricedOnly) {
+          query = query.eq('in_stock', true).not('price', 'is', null);
+        }
+        query = query.limit(Math.min(limit ?? MAX_PRICE_POINTS, MAX_PRICE_POINTS));
+
+        const { data, count, error } = await query;
+        if (error) throw error;
+
+        if (!cancelled) {
+          setPoints((data || []).reverse());
+          setCount(count ?? 0);
+        }
+      } catch (error) {
+        console.error('Error fetching price points:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchPoints();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listingId, since, limit, pricedOnly, enabled, refreshKey]);
+
+  return { points, count, loading };
+}
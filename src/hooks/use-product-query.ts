@@ -0,0 +1,23 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  parseProductQuery,
+  productQueryToParams,
+  type ProductQuery,
+} from '@/lib/product-query';
+
+/**
+ * The tracked products list's search, filters and sort, kept in the URL so
+ * they survive reloads and can be shared. Updates replace the history entry
+ * rather than adding one per keystroke.
+ */
+export function useProductQuery() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseProductQuery(searchParams), [searchParams]);
+
+  const setQuery = useCallback((query: ProductQuery) => {
+    setSearchParams(productQueryToParams(query), { replace: true });
+  }, [setSearchParams]);
+
+  return [query, setQuery] as const;
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/hooks/use-profile';
+import {
+  QUOTA_WINDOW_HOURS,
+  resolveQuotas,
+  type QuotaKind,
+} from '../../supabase/functions/_shared/quotas';
+
+export interface QuotaUsage {
+  /** Products tracked right now */
+  products: number;
+  /** Manual refreshes within the last hour */
+  refreshes: number;
+  /** Products added within the last day */
+  adds: number;
+}
+
+/**
+ * The signed-in user's quotas and how much of them is used. The edge
+ * functions enforce the same limits; this only tells the user where they
+ * stand. Call `refetch` after anything that uses a quota.
+ */
+export function useQuotas() {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const [usage, setUsage] = useState<QuotaUsage | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!user) {
+      setUsage(null);
+      return;
+    }
+
+    const countEvents = async (kind: QuotaKind) => {
+      const since = new Date(Date.now() - QUOTA_WINDOW_HOURS[kind] * 60 * 60 * 1000).toISOString();
+      const { count, error } = await supabase
+        .from('quota_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('kind', kind)
+        .gt('created_at', since);
+
+      if (error) throw error;
+      return count ?? 0;
+    };
+
+    try {
+      const [{ count: products, error }, refreshes, adds] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id),
+        countEvents('refresh'),
+        countEvents('add'),
+      ]);
+
+      if (error) throw error;
+
+      setUsage({ products: products ?? 0, refreshes, adds });
+    } catch (error) {
+      console.error('Error fetching quota usage:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { quotas: resolveQuotas(profile), usage, refetch };
+}
@@ -0,0 +1,72 @@
+import { useEffect, useMemo, useState } from 'react';
+import { subDays } from 'date-fns';
+import { supabase } from '@/lib/supabase';
+import { Product } from '@/types';
+
+/**
+ * How far each product's price fell within the last `days` days: the highest
+ * price seen in that time less the current one. Keyed by listing id, only
+ * listings whose price dropped are included. Pass `enabled: false` to skip
+ * the query while nothing needs it.
+ */
+export function useRecentDrops(products: Product[], days: number, enabled = true) {
+  const [highestPrices, setHighestPrices] = useState<Map<string, number>>(new Map());
+  const listingIds = useMemo(
+    () => [...new Set(products.map(product => product.listing_id))].sort().join(','),
+    [products],
+  );
+
+  useEffect(() => {
+    if (!enabled || !listingIds) {
+      setHighestPrices(new Map());
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchHighestPrices = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('price_points')
+          .select('listing_id, price')
+          .in('listing_id', listingIds.split(','))
+          .gte('last_checked_at', subDays(new Date(), days).toISOString())
+          .eq('in_stock', true)
+          .not('price', 'is', null);
+
+        if (error) throw error;
+
+        const highest = new Map<string, number>();
+        for (const { listing_id, price } of data || []) {
+          highest.set(listing_id, Math.max(highest.get(listing_id) ?? 0, price));
+        }
+        if (!cancelled) setHighestPrices(highest);
+      } catch (error) {
+        console.error('Error fetching recent prices:', error);
+      }
+    };
+
+    fetchHighestPrices();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listingIds, days, enabled]);
+
+  // Current prices come from the products, which update live
+  return useMemo(() => {
+    const drops = new Map<string, number>();
+    for (const product of products) {
+      const highest = highestPrices.get(product.listing_id);
+      if (
+        !product.is_out_of_stock &&
+        product.sale_price !== null &&
+        highest !== undefined &&
+        highest > product.sale_price
+      ) {
+        drops.set(product.listing_id, highest - product.sale_price);
+      }
+    }
+    return drops;
+  }, [products, highestPrices]);
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyRowChange } from './use-row-changes';
+
+// The hook's client needs environment variables; `applyRowChange` never uses it
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+interface Row {
+  id: string;
+  price: number;
+}
+
+const rows: Row[] = [
+  { id: 'b', price: 200 },
+  { id: 'a', price: 100 },
+];
+
+describe('applyRowChange', () => {
+  it('puts inserted rows first', () => {
+    expect(applyRowChange(rows, { type: 'INSERT', row: { id: 'c', price: 300 } })).toEqual([
+      { id: 'c', price: 300 },
+      ...rows,
+    ]);
+  });
+
+  it('replaces a row inserted again in place', () => {
+    expect(applyRowChange(rows, { type: 'INSERT', row: { id: 'a', price: 90 } })).toEqual([
+      { id: 'b', price: 200 },
+      { id: 'a', price: 90 },
+    ]);
+  });
+
+  it('replaces updated rows in place', () => {
+    expect(applyRowChange(rows, { type: 'UPDATE', row: { id: 'b', price: 150 } })).toEqual([
+      { id: 'b', price: 150 },
+      { id: 'a', price: 100 },
+    ]);
+  });
+
+  it('ignores updates of rows it does not have', () => {
+    expect(applyRowChange(rows, { type: 'UPDATE', row: { id: 'c', price: 300 } })).toBe(rows);
+  });
+
+  it('removes deleted rows', () => {
+    expect(applyRowChange(rows, { type: 'DELETE', id: 'b' })).toEqual([{ id: 'a', price: 100 }]);
+  });
+
+  it('ignores deletes of rows it does not have', () => {
+    expect(applyRowChange(rows, { type: 'DELETE', id: 'c' })).toEqual(rows);
+  });
+
+  it('leaves the given list unchanged', () => {
+    const before = structuredClone(rows);
+    applyRowChange(rows, { type: 'UPDATE', row: { id: 'a', price: 90 } });
+    applyRowChange(rows, { type: 'INSERT', row: { id: 'c', price: 300 } });
+    applyRowChange(rows, { type: 'DELETE', id: 'b' });
+    expect(rows).toEqual(before);
+  });
+});
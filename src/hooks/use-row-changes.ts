@@ -0,0 +1,60 @@
+import { useEffect, useId, useRef } from 'react';
+import { supabase } from '@/lib/supabase';
+
+/** A change to one row; deletes only carry the row's id */
+export type RowChange<T> =
+  | { type: 'INSERT' | 'UPDATE'; row: T }
+  | { type: 'DELETE'; id: string };
+
+/**
+ * Applies a change to a newest-first list of rows. Inserts of rows already in
+ * the list replace them, since our own writes may arrive again as events.
+ */
+export function applyRowChange<T extends { id: string }>(rows: T[], change: RowChange<T>): T[] {
+  if (change.type === 'DELETE') {
+    return rows.filter(row => row.id !== change.id);
+  }
+
+  const { row } = change;
+  if (rows.some(existing => existing.id === row.id)) {
+    return rows.map(existing => existing.id === row.id ? row : existing);
+  }
+  // Updates of rows we never loaded are not ours to show
+  return change.type === 'INSERT' ? [row, ...rows] : rows;
+}
+
+/**
+ * Subscribes to realtime changes of `table` rows matching `filter` (e.g.
+ * `user_id=eq.<id>`), while `filter` is set. Realtime applies the table's RLS
+ * policies to inserts and updates; deletes are not filtered, so `onChange`
+ * may see ids it does not know.
+ */
+export function useRowChanges<T extends { id: string }>(
+  table: string,
+  filter: string | null,
+  onChange: (change: RowChange<T>) => void,
+) {
+  const channelId = useId();
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    if (!filter) return;
+
+    const channel = supabase
+      .channel(`${table}:${filter}:${channelId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table, filter }, (payload) => {
+        onChangeRef.current(payload.eventType === 'DELETE'
+          ? { type: 'DELETE', id: payload.old.id }
+          : { type: payload.eventType, row: payload.new as T });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, filter, channelId]);
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { ScrapeAttempt, ScrapeRun } from '@/types';
+
+// Hard caps so a busy scraper can't make the health page pull the whole log
+const MAX_RUNS = 2000;
+const MAX_ATTEMPTS = 5000;
+
+/**
+ * Loads `update-prices` runs and listing scrape attempts from `since` on,
+ * newest first. Only admins can read the scrape log; everyone else gets
+ * empty lists.
+ */
+export function useScrapeLog(since: string) {
+  const [runs, setRuns] = useState<ScrapeRun[]>([]);
+  const [attempts, setAttempts] = useState<ScrapeAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchLog = async () => {
+      setLoading(true);
+      try {
+        const [runsResult, attemptsResult] = await Promise.all([
+          supabase
+            .from('scrape_runs')
+            .select('*')
+            .gte('started_at', since)
+            .order('started_at', { ascending: false })
+            .limit(MAX_RUNS),
+          supabase
+            .from('scrape_attempts')
+            .select('*')
+            .gte('attempted_at', since)
+            .order('attempted_at', { ascending: false })
+            .limit(MAX_ATTEMPTS),
+        ]);
+
+        if (runsResult.error) throw runsResult.error;
+        if (attemptsResult.error) throw attemptsResult.error;
+
+        if (!cancelled) {
+          setRuns(runsResult.data || []);
+          setAttempts(attemptsResult.data || []);
+        }
+      } catch (error) {
+        console.error('Error fetching scrape log:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchLog();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [since]);
+
+  return { runs, attempts, loading };
+}
@@ -0,0 +1,31 @@
+import { PriceAlert } from '@/types';
+
+export const COOLDOWN_OPTIONS = [
+  { minutes: 0, label: 'No cooldown' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 6 * 60, label: '6 hours' },
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 7 * 24 * 60, label: '1 week' },
+];
+
+export function describeCooldown(minutes: number) {
+  return COOLDOWN_OPTIONS.find(option => option.minutes === minutes)?.label ?? `${minutes} min`;
+}
+
+/** One-line summary of what an alert watches for */
+export function describeAlert(alert: PriceAlert) {
+  switch (alert.rule_type) {
+    case 'target_price':
+      return `At or below ₹${Number(alert.target_price).toLocaleString()}`;
+    case 'percent_drop':
+      return `${alert.threshold}% below ₹${Number(alert.baseline_price).toLocaleString()}`;
+    case 'all_time_low':
+      return 'New all-time low';
+    case 'discount_above':
+      return `Discount of ${alert.threshold}% or more`;
+    case 'any_change':
+      return 'Any price change';
+    case 'price_above':
+      return `Above ₹${Number(alert.threshold).toLocaleString()}`;
+  }
+}
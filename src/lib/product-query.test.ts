@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '@/types';
+import {
+  DEFAULT_PRODUCT_QUERY,
+  applyProductQuery,
+  isFiltered,
+  parseProductQuery,
+  productQueryToParams,
+  type ProductQuery,
+  type ProductQueryContext,
+  type ProductSort,
+} from './product-query';
+
+function product(id: string, fields: Partial<Product> = {}): Product {
+  return {
+    id,
+    user_id: 'user-1',
+    listing_id: `listing-${id}`,
+    url: `https://www.cashify.in/buy-refurbished-mobile-phones/${id}`,
+    canonical_url: `https://www.cashify.in/buy-refurbished-mobile-phones/${id}`,
+    variant_key: '',
+    retailer: 'cashify',
+    title: `Phone ${id}`,
+    mrp: 50000,
+    sale_price: 30000,
+    discount: '40%',
+    condition: 'Good',
+    storage: '8 GB / 128 GB',
+    color: 'Black',
+    last_checked: '2025-06-01T00:00:00Z',
+    next_check_at: '2025-06-01T06:00:00Z',
+    consecutive_failures: 0,
+    paused_at: null,
+    created_at: '2025-05-01T00:00:00Z',
+    updated_at: '2025-06-01T00:00:00Z',
+    is_out_of_stock: false,
+    ...fields,
+  };
+}
+
+const EMPTY_CONTEXT: ProductQueryContext = { alertedProductIds: new Set(), recentDrops: new Map() };
+
+function ids(products: Product[]) {
+  return products.map(({ id }) => id);
+}
+
+function query(changes: Partial<ProductQuery>): ProductQuery {
+  return { ...DEFAULT_PRODUCT_QUERY, ...changes };
+}
+
+describe('applyProductQuery filters', () => {
+  const products = [
+    product('a', { title: 'Apple iPhone 12', condition: 'Good', storage: '4 GB / 64 GB', color: 'Blue' }),
+    product('b', { title: 'Samsung Galaxy S21', condition: 'Fair', storage: '8 GB / 128 GB', color: 'Black', is_out_of_stock: true }),
+    product('c', { title: 'Apple iPhone 13', condition: 'Superb', storage: '4 GB / 128 GB', color: 'Black' }),
+  ];
+
+  const filter = (changes: Partial<ProductQuery>, context = EMPTY_CONTEXT) =>
+    ids(applyProductQuery(products, query(changes), context));
+
+  it('keeps everything without filters', () => {
+    expect(filter({})).toEqual(['a', 'b', 'c']);
+  });
+
+  it('searches titles without regard to case or surrounding spaces', () => {
+    expect(filter({ search: '  iphone ' })).toEqual(['a', 'c']);
+  });
+
+  it('matches condition, storage and colour exactly', () => {
+    expect(filter({ condition: 'Fair' })).toEqual(['b']);
+    expect(filter({ storage: '4 GB / 128 GB' })).toEqual(['c']);
+    expect(filter({ color: 'Black' })).toEqual(['b', 'c']);
+    expect(filter({ color: 'Bla' })).toEqual([]);
+  });
+
+  it('filters by stock status', () => {
+    expect(filter({ stock: 'in-stock' })).toEqual(['a', 'c']);
+    expect(filter({ stock: 'out-of-stock' })).toEqual(['b']);
+  });
+
+  it('treats products without a stock flag as in stock', () => {
+    const unflagged = [product('d', { is_out_of_stock: undefined })];
+    expect(ids(applyProductQuery(unflagged, query({ stock: 'in-stock' }), EMPTY_CONTEXT))).toEqual(['d']);
+  });
+
+  it('keeps only products with an active alert', () => {
+    expect(filter({ hasAlert: true }, { ...EMPTY_CONTEXT, alertedProductIds: new Set(['c']) })).toEqual(['c']);
+  });
+
+  it('keeps only products whose price dropped', () => {
+    const recentDrops = new Map([['listing-a', 500]]);
+    expect(filter({ droppedWithinDays: 7 }, { ...EMPTY_CONTEXT, recentDrops })).toEqual(['a']);
+  });
+
+  it('combines filters', () => {
+    expect(filter({ search: 'apple', color: 'Black' })).toEqual(['c']);
+  });
+});
+
+describe('applyProductQuery sorts', () => {
+  const sorted = (products: Product[], sort: ProductSort, context = EMPTY_CONTEXT) =>
+    ids(applyProductQuery(products, query({ sort }), context));
+
+  it('puts the most recently added first', () => {
+    const products = [
+      product('old', { created_at: '2025-01-01T00:00:00Z' }),
+      product('new', { created_at: '2025-03-01T00:00:00Z' }),
+      product('mid', { created_at: '2025-02-01T00:00:00Z' }),
+    ];
+    expect(sorted(products, 'newest')).toEqual(['new', 'mid', 'old']);
+  });
+
+  it('sorts by price either way, unknown prices last', () => {
+    const products = [
+      product('unknown', { sale_price: null }),
+      product('high', { sale_price: 40000 }),
+      product('low', { sale_price: 20000 }),
+    ];
+    expect(sorted(products, 'price-asc')).toEqual(['low', 'high', 'unknown']);
+    expect(sorted(products, 'price-desc')).toEqual(['high', 'low', 'unknown']);
+  });
+
+  it('puts the biggest discount first, unreadable ones as none', () => {
+    const products = [
+      product('none', { discount: '' }),
+      product('small', { discount: '10%' }),
+      product('big', { discount: '55%' }),
+    ];
+    expect(sorted(products, 'discount')).toEqual(['big', 'small', 'none']);
+  });
+
+  it('puts the biggest savings first, unknown ones last', () => {
+    const products = [
+      product('no-mrp', { mrp: null, sale_price: 10000 }),
+      product('small', { mrp: 30000, sale_price: 28000 }),
+      product('no-price', { mrp: 30000, sale_price: null }),
+      product('big', { mrp: 50000, sale_price: 20000 }),
+    ];
+    expect(sorted(products, 'savings')).toEqual(['big', 'small', 'no-mrp', 'no-price']);
+  });
+
+  it('puts the biggest recent drop first, products without one last', () => {
+    const products = [product('none'), product('small'), product('big')];
+    const recentDrops = new Map([['listing-small', 100], ['listing-big', 2000]]);
+    expect(sorted(products, 'drop', { ...EMPTY_CONTEXT, recentDrops })).toEqual(['big', 'small', 'none']);
+  });
+
+  it('puts the most recently checked first', () => {
+    const products = [
+      product('stale', { last_checked: '2025-06-01T00:00:00Z' }),
+      product('fresh', { last_checked: '2025-06-02T00:00:00Z' }),
+    ];
+    expect(sorted(products, 'last-checked')).toEqual(['fresh', 'stale']);
+  });
+
+  it('keeps ties in their original order', () => {
+    const products = [product('first'), product('second'), product('third')];
+    for (const sort of ['price-asc', 'price-desc', 'discount', 'savings', 'drop', 'last-checked'] as const) {
+      expect(sorted(products, sort)).toEqual(['first', 'second', 'third']);
+    }
+  });
+
+  it('does not reorder the given list', () => {
+    const products = [product('low', { sale_price: 1 }), product('high', { sale_price: 2 })];
+    applyProductQuery(products, query({ sort: 'price-desc' }), EMPTY_CONTEXT);
+    expect(ids(products)).toEqual(['low', 'high']);
+  });
+});
+
+describe('product query URL parameters', () => {
+  it('round-trips every field', () => {
+    const full: ProductQuery = {
+      search: 'iphone 12',
+      condition: 'Good',
+      storage: '4 GB / 64 GB',
+      color: 'Blue',
+      stock: 'out-of-stock',
+      hasAlert: true,
+      droppedWithinDays: 30,
+      sort: 'price-asc',
+    };
+
+    const params = productQueryToParams(full);
+    expect(parseProductQuery(new URLSearchParams(params.toString()))).toEqual(full);
+  });
+
+  it('leaves defaults out of the URL', () => {
+    expect(productQueryToParams(DEFAULT_PRODUCT_QUERY).toString()).toBe('');
+    expect(parseProductQuery(new URLSearchParams())).toEqual(DEFAULT_PRODUCT_QUERY);
+  });
+
+  it('falls back to defaults for invalid values', () => {
+    const params = new URLSearchParams('stock=sold&alert=yes&dropped=3&sort=cheapest');
+    expect(parseProductQuery(params)).toEqual(DEFAULT_PRODUCT_QUERY);
+  });
+
+  it('ignores non-numeric and inherited values', () => {
+    expect(parseProductQuery(new URLSearchParams('dropped=week')).droppedWithinDays).toBeNull();
+    expect(parseProductQuery(new URLSearchParams('sort=toString')).sort).toBe('newest');
+  });
+
+  it('counts only filters as filtering, not the sort', () => {
+    expect(isFiltered(query({ sort: 'discount' }))).toBe(false);
+    expect(isFiltered(query({ hasAlert: true }))).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { Product } from '@/types';
+
+export type ProductSort =
+  | 'newest'
+  | 'price-asc'
+  | 'price-desc'
+  | 'discount'
+  | 'savings'
+  | 'drop'
+  | 'last-checked';
+
+export type StockFilter = 'all' | 'in-stock' | 'out-of-stock';
+
+/** What the tracked products list shows, kept in the URL's query string */
+export interface ProductQuery {
+  search: string;
+  /** Exact values to match; empty matches everything */
+  condition: string;
+  storage: string;
+  color: string;
+  stock: StockFilter;
+  /** Only products with at least one active alert */
+  hasAlert: boolean;
+  /** Only products whose price dropped within this many days */
+  droppedWithinDays: number | null;
+  sort: ProductSort;
+}
+
+export const DEFAULT_PRODUCT_QUERY: ProductQuery = {
+  search: '',
+  condition: '',
+  storage: '',
+  color: '',
+  stock: 'all',
+  hasAlert: false,
+  droppedWithinDays: null,
+  sort: 'newest',
+};
+
+export const PRODUCT_SORTS: Record<ProductSort, string> = {
+  newest: 'Recently added',
+  'price-asc': 'Price: low to high',
+  'price-desc': 'Price: high to low',
+  discount: 'Biggest discount',
+  savings: 'Biggest savings',
+  drop: 'Biggest recent drop',
+  'last-checked': 'Recently checked',
+};
+
+export const DROP_WINDOWS_DAYS = [1, 7, 30];
+
+/** Window for "biggest recent drop" when no drop filter narrows it */
+export const DEFAULT_DROP_WINDOW_DAYS = 7;
+
+export function parseProductQuery(params: URLSearchParams): ProductQuery {
+  const sort = params.get('sort');
+  const stock = params.get('stock');
+  const dropped = Number(params.get('dropped'));
+
+  return {
+    search: params.get('q') ?? '',
+    condition: params.get('condition') ?? '',
+    storage: params.get('storage') ?? '',
+    color: params.get('color') ?? '',
+    stock: stock === 'in-stock' || stock === 'out-of-stock' ? stock : 'all',
+    hasAlert: params.get('alert') === '1',
+    droppedWithinDays: DROP_WINDOWS_DAYS.includes(dropped) ? dropped : null,
+    sort: sort && Object.prototype.hasOwnProperty.call(PRODUCT_SORTS, sort) ? sort as ProductSort : 'newest',
+  };
+}
+
+/** The query as URL parameters, leaving out defaults to keep links short */
+export function productQueryToParams(query: ProductQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.search) params.set('q', query.search);
+  if (query.condition) params.set('condition', query.condition);
+  if (query.storage) params.set('storage', query.storage);
+  if (query.color) params.set('color', query.color);
+  if (query.stock !== 'all') params.set('stock', query.stock);
+  if (query.hasAlert) params.set('alert', '1');
+  if (query.droppedWithinDays !== null) params.set('dropped', String(query.droppedWithinDays));
+  if (query.sort !== 'newest') params.set('sort', query.sort);
+  return params;
+}
+
+export function isFiltered(query: ProductQuery): boolean {
+  return productQueryToParams({ ...query, sort: 'newest' }).toString() !== '';
+}
+
+/** What the filters and sorts need beyond the products themselves */
+export interface ProductQueryContext {
+  /** Ids of products with an active alert */
+  alertedProductIds: Set<string>;
+  /** How far each listing's price fell within the drop window, by listing id */
+  recentDrops: Map<string, number>;
+}
+
+export function discountPercent(product: Product): number {
+  const discount = parseFloat(product.discount.replace('%', ''));
+  return isNaN(discount) ? 0 : discount;
+}
+
+/** Orders numbers either way, with unknown (null) values always last */
+function compareKnown(a: number | null, b: number | null, direction: 1 | -1): number {
+  if (a === null || b === null) return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+  return (a - b) * direction;
+}
+
+export function applyProductQuery(
+  products: Product[],
+  query: ProductQuery,
+  { alertedProductIds, recentDrops }: ProductQueryContext,
+): Product[] {
+  const search = query.search.trim().toLowerCase();
+  const recentDrop = (product: Product) => recentDrops.get(product.listing_id) ?? 0;
+  const savings = (product: Product) =>
+    product.mrp !== null && product.sale_price !== null ? product.mrp - product.sale_price : null;
+
+  const matching = products.filter(product =>
+    (!search || product.title.toLowerCase().includes(search)) &&
+    (!query.condition || product.condition === query.condition) &&
+    (!query.storage || product.storage === query.storage) &&
+    (!query.color || product.color === query.color) &&
+    (query.stock === 'all' || (query.stock === 'out-of-stock') === !!product.is_out_of_stock) &&
+    (!query.hasAlert || alertedProductIds.has(product.id)) &&
+    (query.droppedWithinDays === null || recentDrop(product) > 0)
+  );
+
+  const compare: Record<ProductSort, (a: Product, b: Product) => number> = {
+    newest: (a, b) => b.created_at.localeCompare(a.created_at),
+    'price-asc': (a, b) => compareKnown(a.sale_price, b.sale_price, 1),
+    'price-desc': (a, b) => compareKnown(a.sale_price, b.sale_price, -1),
+    discount: (a, b) => discountPercent(b) - discountPercent(a),
+    savings: (a, b) => compareKnown(savings(a), savings(b), -1),
+    drop: (a, b) => recentDrop(b) - recentDrop(a),
+    'last-checked': (a, b) => b.last_checked.localeCompare(a.last_checked),
+  };
+
+  return matching.sort(compare[query.sort]);
+}
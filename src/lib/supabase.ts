@@ -16,52 +16,116 @@ export type Database = {
         Row: {
           id: string;
           user_id: string;
+          listing_id: string;
           url: string;
+          canonical_url: string;
+          variant_key: string;
+          retailer: string;
           title: string;
-          mrp: number;
-          sale_price: number;
+          mrp: number | null;
+          sale_price: number | null;
           discount: string;
           condition: string;
           storage: string;
           image_url: string | null;
           last_checked: string;
-          price_history: any;
+          next_check_at: string;
+          consecutive_failures: number;
+          paused_at: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
+          listing_id: string;
           url: string;
+          canonical_url: string;
+          variant_key?: string;
+          retailer?: string;
           title: string;
-          mrp: number;
-          sale_price: number;
+          mrp?: number | null;
+          sale_price?: number | null;
           discount: string;
           condition: string;
           storage: string;
           image_url?: string | null;
           last_checked?: string;
-          price_history?: any;
+          next_check_at?: string;
+          consecutive_failures?: number;
+          paused_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           user_id?: string;
+          listing_id?: string;
           url?: string;
+          canonical_url?: string;
+          variant_key?: string;
+          retailer?: string;
           title?: string;
-          mrp?: number;
-          sale_price?: number;
+          mrp?: number | null;
+          sale_price?: number | null;
           discount?: string;
           condition?: string;
           storage?: string;
           image_url?: string | null;
           last_checked?: string;
-          price_history?: any;
+          next_check_at?: string;
+          consecutive_failures?: number;
+          paused_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      listings: {
+        Row: {
+          id: string;
+          canonical_url: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          canonical_url: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          canonical_url?: string;
+          created_at?: string;
+        };
+      };
+      price_points: {
+        Row: {
+          id: string;
+          listing_id: string;
+          price: number | null;
+          mrp: number | null;
+          in_stock: boolean;
+          checked_at: string;
+          source: string;
+        };
+        Insert: {
+          id?: string;
+          listing_id: string;
+          price?: number | null;
+          mrp?: number | null;
+          in_stock?: boolean;
+          checked_at?: string;
+          source?: string;
+        };
+        Update: {
+          id?: string;
+          listing_id?: string;
+          price?: number | null;
+          mrp?: number | null;
+          in_stock?: boolean;
+          checked_at?: string;
+          source?: string;
+        };
+      };
     };
   };
 };
\ No newline at end of file
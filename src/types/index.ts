@@ -7,10 +7,20 @@ export interface User {
 export interface Product {
   id: string;
   user_id: string;
+  listing_id: string;
   url: string;
+  canonical_url: string;
+  /**
+   * Which variant of the page this product follows, e.g. `fair|4gb-64gb|blue`.
+   * Empty for whatever the page shows by default.
+   */
+  variant_key: string;
+  /** Id of the retailer adapter, e.g. `cashify` */
+  retailer: string;
   title: string;
-  mrp: number;
-  sale_price: number;
+  /** Null when the product was added out of stock with no listed price */
+  mrp: number | null;
+  sale_price: number | null;
   discount: string;
   condition: string;
   storage: string;
@@ -18,36 +28,161 @@ export interface Product {
   color?: string;
   image_url?: string;
   last_checked: string;
-  price_history: PriceEntry[];
+  /** When update-prices will next check this product */
+  next_check_at: string;
+  /** Failed checks since the last successful one */
+  consecutive_failures: number;
+  /** Set when repeated failures paused scheduled checks */
+  paused_at: string | null;
   created_at: string;
   updated_at: string;
   is_out_of_stock?: boolean;
+  last_check_status?: CheckStatus;
+  last_check_error?: ScrapeFailureReason | null;
 }
 
-export interface PriceEntry {
-  price: number;
+export type CheckStatus = 'success' | 'partial' | 'failed';
+
+export type ScrapeFailureReason =
+  | 'NETWORK_ERROR'
+  | 'HTTP_ERROR'
+  | 'NOT_FOUND'
+  | 'BLOCKED'
+  | 'PRICE_NOT_FOUND'
+  | 'VARIANT_NOT_FOUND';
+
+export type PricePointSource = 'initial' | 'scheduled' | 'manual' | 'backfill';
+
+/**
+ * A run of identical consecutive checks of a listing, from `checked_at` to
+ * `last_checked_at`, shared by everyone tracking it. Failed checks have no
+ * price or stock status.
+ */
+export interface PricePoint {
+  id: string;
+  listing_id: string;
+  price: number | null;
+  mrp: number | null;
+  discount: number | null;
+  in_stock: boolean | null;
+  outcome: CheckStatus;
+  failure_reason: ScrapeFailureReason | null;
   checked_at: string;
+  last_checked_at: string;
+  check_count: number;
+  source: PricePointSource;
 }
 
+export type AlertRuleType =
+  | 'target_price'
+  | 'percent_drop'
+  | 'all_time_low'
+  | 'discount_above'
+  | 'any_change'
+  | 'price_above';
+
+export type AlertMode = 'once' | 'recurring';
+
+/** When a recurring alert may fire again after triggering */
+export type AlertRearm = 'on_reset' | 'after_cooldown';
+
 export interface PriceAlert {
   id: string;
   product_id: string;
   user_id: string;
-  target_price: number;
+  rule_type: AlertRuleType;
+  /** Only set for `target_price` rules */
+  target_price: number | null;
+  /** Percentage for `percent_drop`/`discount_above`, price for `price_above` */
+  threshold: number | null;
+  /** Price when a `percent_drop` alert was created */
+  baseline_price: number | null;
+  mode: AlertMode;
+  rearm: AlertRearm;
+  cooldown_minutes: number;
+  is_armed: boolean;
+  last_triggered_at: string | null;
+  trigger_count: number;
   is_active: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export type UserTier = 'free' | 'pro';
+
+export interface Profile {
+  id: string;
+  tier: UserTier;
+  is_admin: boolean;
+  /** Quota overrides for this user; null keeps the tier's default */
+  max_products: number | null;
+  refreshes_per_hour: number | null;
+  adds_per_day: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ExtractionStrategy = 'json-ld' | 'next-data' | 'html';
+
+/** One invocation of `update-prices` */
+export interface ScrapeRun {
+  id: string;
+  trigger: 'scheduled' | 'manual';
+  started_at: string;
+  /** Null while running, or if the run crashed before finishing */
+  finished_at: string | null;
+  duration_ms: number | null;
+  listings_attempted: number;
+  products_attempted: number;
+  products_succeeded: number;
+  products_failed: number;
+  /** Scrape failure reasons, plus `UPDATE_ERROR` and `INTERNAL_ERROR` */
+  failures_by_reason: Record<string, number>;
+  remaining: number;
+  error: string | null;
+}
+
+/** One scrape of a listing within a run */
+export interface ScrapeAttempt {
+  id: string;
+  run_id: string;
+  listing_id: string | null;
+  url: string;
+  products_count: number;
+  status: CheckStatus;
+  failure_reason: ScrapeFailureReason | null;
+  sources: Partial<Record<keyof ScrapedData, ExtractionStrategy>>;
+  missing: (keyof ScrapedData)[];
+  duration_ms: number;
+  attempted_at: string;
+}
+
 export interface ScrapedData {
   title: string;
-  mrp: number;
-  sale_price: number;
+  mrp: number | null;
+  sale_price: number | null;
   discount: string;
   condition: string;
   storage: string;
   ram?: string;
   color?: string;
   image_url?: string;
-  is_out_of_stock?: boolean;
+  is_out_of_stock: boolean;
+  /** Every variant the page offers, when it offers more than one */
+  variants?: ScrapedVariant[];
+}
+
+/** One condition, capacity and colour combination of a listing */
+export interface ScrapedVariant {
+  key: string;
+  /** e.g. "Fair, 4 GB / 64 GB, Blue" */
+  label: string;
+  mrp: number | null;
+  sale_price: number | null;
+  discount: string;
+  condition: string;
+  storage: string;
+  ram?: string;
+  color?: string;
+  is_out_of_stock: boolean;
 }
\ No newline at end of file
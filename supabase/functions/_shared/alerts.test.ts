@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateAlertRule,
+  nextAlertAction,
+  staysArmedAfterTrigger,
+  type AlertRule,
+  type AlertSchedule,
+  type PriceObservation,
+} from './alerts.ts';
+
+function rule(fields: Partial<AlertRule> & Pick<AlertRule, 'rule_type'>): AlertRule {
+  return { target_price: null, threshold: null, baseline_price: null, ...fields };
+}
+
+function observe(price: number, fields: Partial<PriceObservation> = {}): PriceObservation {
+  return { price, discount: null, previousPrice: null, allTimeLow: null, ...fields };
+}
+
+function schedule(fields: Partial<AlertSchedule> = {}): AlertSchedule {
+  return {
+    mode: 'recurring',
+    rearm: 'on_reset',
+    cooldown_minutes: 60,
+    is_armed: true,
+    last_triggered_at: null,
+    ...fields,
+  };
+}
+
+describe('evaluateAlertRule', () => {
+  it('fires target_price at or below the target', () => {
+    const target = rule({ rule_type: 'target_price', target_price: 20000 });
+
+    expect(evaluateAlertRule(target, observe(20001))).toBeNull();
+    expect(evaluateAlertRule(target, observe(20000))).toBe('₹0 below your target of ₹20,000');
+    expect(evaluateAlertRule(target, observe(19500))).toBe('₹500 below your target of ₹20,000');
+  });
+
+  it('fires percent_drop once the price is the threshold below the baseline', () => {
+    const drop = rule({ rule_type: 'percent_drop', threshold: 10, baseline_price: 20000 });
+
+    expect(evaluateAlertRule(drop, observe(18001))).toBeNull();
+    expect(evaluateAlertRule(drop, observe(18000))).toBe('10% below ₹20,000, the price when you set this alert');
+  });
+
+  it('never fires percent_drop without a baseline', () => {
+    const drop = rule({ rule_type: 'percent_drop', threshold: 10, baseline_price: null });
+    expect(evaluateAlertRule(drop, observe(1))).toBeNull();
+  });
+
+  it('fires all_time_low only below the earlier low', () => {
+    const low = rule({ rule_type: 'all_time_low' });
+
+    expect(evaluateAlertRule(low, observe(15000))).toBeNull();
+    expect(evaluateAlertRule(low, observe(15000, { allTimeLow: 15000 }))).toBeNull();
+    expect(evaluateAlertRule(low, observe(14999, { allTimeLow: 15000 }))).toBe('New all-time low, previously ₹15,000');
+  });
+
+  it('fires discount_above at or above the threshold, and not without an MRP', () => {
+    const discount = rule({ rule_type: 'discount_above', threshold: 40 });
+
+    expect(evaluateAlertRule(discount, observe(20000, { discount: 39 }))).toBeNull();
+    expect(evaluateAlertRule(discount, observe(20000, { discount: 40 }))).toBe('40% off the MRP');
+    expect(evaluateAlertRule(discount, observe(20000, { discount: null }))).toBeNull();
+  });
+
+  it('fires any_change when the price differs from the last one', () => {
+    const change = rule({ rule_type: 'any_change' });
+
+    expect(evaluateAlertRule(change, observe(20000))).toBeNull();
+    expect(evaluateAlertRule(change, observe(20000, { previousPrice: 20000 }))).toBeNull();
+    expect(evaluateAlertRule(change, observe(20500, { previousPrice: 20000 }))).toBe('Changed from ₹20,000');
+  });
+
+  it('fires price_above only above the threshold', () => {
+    const above = rule({ rule_type: 'price_above', threshold: 25000 });
+
+    expect(evaluateAlertRule(above, observe(25000))).toBeNull();
+    expect(evaluateAlertRule(above, observe(25300))).toBe('₹300 above ₹25,000');
+  });
+
+  it('compares numeric columns that arrive as strings', () => {
+    const target = rule({ rule_type: 'target_price', target_price: '20000' as unknown as number });
+    expect(evaluateAlertRule(target, observe(9000))).not.toBeNull();
+  });
+});
+
+describe('nextAlertAction', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  it('notifies an armed alert whose rule holds', () => {
+    expect(nextAlertAction(schedule(), true, now)).toBe('notify');
+  });
+
+  it('leaves a disarmed alert alone while its rule still holds', () => {
+    expect(nextAlertAction(schedule({ is_armed: false }), true, now)).toBe('none');
+  });
+
+  it('re-arms a disarmed alert once its rule stops holding', () => {
+    expect(nextAlertAction(schedule({ is_armed: false }), false, now)).toBe('rearm');
+    expect(nextAlertAction(schedule(), false, now)).toBe('none');
+  });
+
+  it('holds an alert back until its cooldown has passed', () => {
+    const cooling = schedule({ rearm: 'after_cooldown', cooldown_minutes: 60 });
+
+    expect(nextAlertAction({ ...cooling, last_triggered_at: '2025-06-01T11:00:01Z' }, true, now)).toBe('none');
+    expect(nextAlertAction({ ...cooling, last_triggered_at: '2025-06-01T11:00:00Z' }, true, now)).toBe('notify');
+  });
+
+  it('fires on_reset alerts again only after the rule stopped holding', () => {
+    const base = schedule({ rearm: 'on_reset' });
+    const fired = { ...base, is_armed: staysArmedAfterTrigger(base), last_triggered_at: '2025-06-01T11:00:00Z' };
+
+    expect(nextAlertAction(fired, true, now)).toBe('none');
+    expect(nextAlertAction(fired, false, now)).toBe('rearm');
+    expect(nextAlertAction({ ...fired, is_armed: true }, true, now)).toBe('notify');
+  });
+
+  it('fires after_cooldown alerts again while the rule holds, once the cooldown passed', () => {
+    const base = schedule({ rearm: 'after_cooldown', cooldown_minutes: 30 });
+    const fired = { ...base, is_armed: staysArmedAfterTrigger(base), last_triggered_at: '2025-06-01T11:45:00Z' };
+
+    expect(nextAlertAction(fired, true, now)).toBe('none');
+    expect(nextAlertAction(fired, true, new Date('2025-06-01T12:15:00Z'))).toBe('notify');
+  });
+
+  it('applies no cooldown to an alert that never fired', () => {
+    expect(nextAlertAction(schedule({ cooldown_minutes: 24 * 60 }), true, now)).toBe('notify');
+  });
+});
+
+describe('staysArmedAfterTrigger', () => {
+  it('keeps only recurring alerts that re-arm after a cooldown armed', () => {
+    expect(staysArmedAfterTrigger(schedule({ mode: 'recurring', rearm: 'after_cooldown' }))).toBe(true);
+    expect(staysArmedAfterTrigger(schedule({ mode: 'recurring', rearm: 'on_reset' }))).toBe(false);
+    expect(staysArmedAfterTrigger(schedule({ mode: 'once', rearm: 'after_cooldown' }))).toBe(false);
+    expect(staysArmedAfterTrigger(schedule({ mode: 'once', rearm: 'on_reset' }))).toBe(false);
+  });
+});
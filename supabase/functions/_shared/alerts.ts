@@ -0,0 +1,128 @@
+export type AlertRuleType =
+  | 'target_price'
+  | 'percent_drop'
+  | 'all_time_low'
+  | 'discount_above'
+  | 'any_change'
+  | 'price_above';
+
+export interface AlertRule {
+  rule_type: AlertRuleType;
+  target_price: number | null;
+  threshold: number | null;
+  baseline_price: number | null;
+}
+
+export type AlertMode = 'once' | 'recurring';
+export type AlertRearm = 'on_reset' | 'after_cooldown';
+
+export interface AlertSchedule {
+  mode: AlertMode;
+  rearm: AlertRearm;
+  cooldown_minutes: number;
+  is_armed: boolean;
+  last_triggered_at: string | null;
+}
+
+export type AlertAction = 'notify' | 'rearm' | 'none';
+
+/** What a successful, in-stock check saw, plus the history rules compare against */
+export interface PriceObservation {
+  price: number;
+  /** Discount percentage, null when the MRP is unknown */
+  discount: number | null;
+  /** Last in-stock price before this check */
+  previousPrice: number | null;
+  /** Lowest in-stock price before this check */
+  allTimeLow: number | null;
+}
+
+function formatPrice(price: number): string {
+  return `₹${price.toLocaleString()}`;
+}
+
+/** One-line description of the rule, for emails and logs */
+export function describeAlertRule(rule: AlertRule): string {
+  switch (rule.rule_type) {
+    case 'target_price':
+      return `Price at or below ${formatPrice(Number(rule.target_price))}`;
+    case 'percent_drop':
+      return `Price ${rule.threshold}% below ${formatPrice(Number(rule.baseline_price))}`;
+    case 'all_time_low':
+      return 'Price drops below its all-time low';
+    case 'discount_above':
+      return `Discount of at least ${rule.threshold}%`;
+    case 'any_change':
+      return 'Any price change';
+    case 'price_above':
+      return `Price rises above ${formatPrice(Number(rule.threshold))}`;
+  }
+}
+
+/**
+ * Checks a rule against the latest observation. Returns a sentence explaining
+ * why it fired, or null when it did not. Numeric columns arrive from
+ * PostgREST as strings, so values are coerced before comparing.
+ */
+export function evaluateAlertRule(rule: AlertRule, observation: PriceObservation): string | null {
+  const { price, discount, previousPrice, allTimeLow } = observation;
+  const threshold = rule.threshold === null ? null : Number(rule.threshold);
+
+  switch (rule.rule_type) {
+    case 'target_price': {
+      const target = Number(rule.target_price);
+      return price <= target
+        ? `${formatPrice(target - price)} below your target of ${formatPrice(target)}`
+        : null;
+    }
+    case 'percent_drop': {
+      const baseline = Number(rule.baseline_price);
+      if (threshold === null || !baseline) return null;
+      const drop = ((baseline - price) / baseline) * 100;
+      return drop >= threshold
+        ? `${Math.round(drop)}% below ${formatPrice(baseline)}, the price when you set this alert`
+        : null;
+    }
+    case 'all_time_low':
+      return allTimeLow !== null && price < allTimeLow
+        ? `New all-time low, previously ${formatPrice(allTimeLow)}`
+        : null;
+    case 'discount_above':
+      return threshold !== null && discount !== null && discount >= threshold
+        ? `${discount}% off the MRP`
+        : null;
+    case 'any_change':
+      return previousPrice !== null && price !== previousPrice
+        ? `Changed from ${formatPrice(previousPrice)}`
+        : null;
+    case 'price_above':
+      return threshold !== null && price > threshold
+        ? `${formatPrice(price - threshold)} above ${formatPrice(threshold)}`
+        : null;
+  }
+}
+
+/**
+ * Decides what to do with an alert given whether its rule holds right now.
+ * A triggered alert is disarmed; `on_reset` alerts re-arm once the rule stops
+ * holding, `after_cooldown` alerts stay armed and are only held back by the
+ * cooldown.
+ */
+export function nextAlertAction(schedule: AlertSchedule, triggered: boolean, now: Date): AlertAction {
+  if (!triggered) {
+    return schedule.is_armed ? 'none' : 'rearm';
+  }
+  if (!schedule.is_armed) {
+    return 'none';
+  }
+  if (schedule.last_triggered_at) {
+    const cooldownEnds = new Date(schedule.last_triggered_at).getTime() + schedule.cooldown_minutes * 60 * 1000;
+    if (now.getTime() < cooldownEnds) return 'none';
+  }
+  return 'notify';
+}
+
+/** Whether the alert stays armed after it has fired */
+export function staysArmedAfterTrigger(schedule: AlertSchedule): boolean {
+  return schedule.mode === 'recurring' && schedule.rearm === 'after_cooldown';
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { authenticateCaller } from './auth.ts';
+
+const SERVICE_KEY = 'service-role-key';
+const USER = { id: 'user-1', email: 'user@example.com' };
+
+// Only `auth.getUser` is used; it accepts a single valid user token
+const supabase = {
+  auth: {
+    getUser: async (token: string) => token === 'user-token'
+      ? { data: { user: USER }, error: null }
+      : { data: { user: null }, error: new Error('invalid JWT') },
+  },
+} as unknown as SupabaseClient;
+
+function request(authorization?: string) {
+  return new Request('http://localhost/functions/v1/update-prices', {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+}
+
+describe('authenticateCaller', () => {
+  it('recognizes the service role key', async () => {
+    expect(await authenticateCaller(request(`Bearer ${SERVICE_KEY}`), supabase, SERVICE_KEY))
+      .toEqual({ kind: 'service' });
+  });
+
+  it('resolves a user token to its user', async () => {
+    expect(await authenticateCaller(request('Bearer user-token'), supabase, SERVICE_KEY))
+      .toEqual({ kind: 'user', user: USER });
+  });
+
+  it('rejects missing, malformed and invalid credentials', async () => {
+    expect(await authenticateCaller(request(), supabase, SERVICE_KEY)).toBeNull();
+    expect(await authenticateCaller(request(SERVICE_KEY), supabase, SERVICE_KEY)).toBeNull();
+    expect(await authenticateCaller(request('Bearer forged-token'), supabase, SERVICE_KEY)).toBeNull();
+  });
+});
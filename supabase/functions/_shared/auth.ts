@@ -0,0 +1,31 @@
+import type { SupabaseClient, User } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Who is calling an edge function: the scheduler or another backend holding
+ * the service role key, or a signed-in user of the app.
+ */
+export type Caller =
+  | { kind: 'service' }
+  | { kind: 'user'; user: User };
+
+/**
+ * Identifies the caller from the `Authorization` header, or returns null when
+ * it carries neither the service role key nor a valid user token. `supabase`
+ * must be a service role client.
+ */
+export async function authenticateCaller(
+  req: Request,
+  supabase: SupabaseClient,
+  serviceKey: string,
+): Promise<Caller | null> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.slice('Bearer '.length);
+  if (token === serviceKey) return { kind: 'service' };
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  return { kind: 'user', user };
+}
@@ -0,0 +1,214 @@
+import type { ScrapedData } from './scraper.ts';
+import { parseProductUrl } from './retailers/index.ts';
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+}
+
+interface ProductSummary {
+  title: string;
+  url: string;
+}
+
+// Name of the store a product link points to, for button labels
+function storeName(url: string): string {
+  return parseProductUrl(url)?.retailer.name ?? 'the store';
+}
+
+export function trackingConfirmationEmail(userEmail: string, productUrl: string, scrapedData: ScrapedData): EmailContent {
+  const salePrice = scrapedData.sale_price ?? 0;
+  const mrp = scrapedData.mrp ?? salePrice;
+  const savings = mrp - salePrice;
+  const stockStatus = scrapedData.is_out_of_stock ? 'Out of Stock' : 'In Stock';
+
+  return {
+    subject: `✅ Now Tracking: ${scrapedData.title}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #f8fafc; padding: 20px;">
+        <div style="background-color: white; border-radius: 12px; padding: 30px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #2563eb; margin: 0; font-size: 28px; font-weight: bold;">🎯 PriceTracker</h1>
+            <p style="color: #64748b; margin: 10px 0 0 0; font-size: 16px;">Your Smart Price Monitoring Companion</p>
+          </div>
+
+          <!-- Success Message -->
+          <div style="background: linear-gradient(135deg, #10b981, #059669); color: white; padding: 20px; border-radius: 8px; text-align: center; margin-bottom: 30px;">
+            <h2 style="margin: 0 0 10px 0; font-size: 24px;">✅ Tracking Started Successfully!</h2>
+            <p style="margin: 0; font-size: 16px; opacity: 0.9;">We're now monitoring this product for price changes and stock availability</p>
+          </div>
+
+          <!-- Product Details -->
+          <div style="background-color: #f1f5f9; padding: 25px; border-radius: 8px; margin-bottom: 25px;">
+            <h3 style="color: #1e293b; margin: 0 0 15px 0; font-size: 20px; font-weight: 600;">${scrapedData.title}</h3>
+            
+            <div style="display: grid; gap: 12px;">
+              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
+                <span style="color: #64748b; font-weight: 500;">Stock Status:</span>
+                <span style="color: ${scrapedData.is_out_of_stock ? '#dc2626' : '#059669'}; font-weight: bold;">${stockStatus}</span>
+              </div>
+              
+              ${!scrapedData.is_out_of_stock ? `
+              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
+                <span style="color: #64748b; font-weight: 500;">Current Price:</span>
+                <span style="color: #059669; font-size: 20px; font-weight: bold;">₹${salePrice.toLocaleString()}</span>
+              </div>
+              
+              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
+                <span style="color: #64748b; font-weight: 500;">Original Price:</span>
+                <span style="color: #64748b; text-decoration: line-through;">₹${mrp.toLocaleString()}</span>
+              </div>
+              
+              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
+                <span style="color: #64748b; font-weight: 500;">Discount:</span>
+                <span style="color: #dc2626; font-weight: bold;">${scrapedData.discount}</span>
+              </div>
+              ` : ''}
+              
+              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
+                <span style="color: #64748b; font-weight: 500;">Condition:</span>
+                <span style="color: #1e293b; font-weight: 500;">${scrapedData.condition}</span>
+              </div>
+              
+              ${scrapedData.storage ? `
+              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
+                <span style="color: #64748b; font-weight: 500;">Storage:</span>
+                <span style="color: #1e293b; font-weight: 500;">${scrapedData.storage}</span>
+              </div>
+              ` : ''}
+              
+              ${scrapedData.color ? `
+              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0;">
+                <span style="color: #64748b; font-weight: 500;">Color:</span>
+                <span style="color: #1e293b; font-weight: 500;">${scrapedData.color}</span>
+              </div>
+              ` : ''}
+            </div>
+
+            ${!scrapedData.is_out_of_stock && savings > 0 ? `
+            <div style="background-color: #dcfce7; border: 1px solid #bbf7d0; padding: 15px; border-radius: 6px; margin-top: 15px;">
+              <p style="margin: 0; color: #166534; font-weight: 600; text-align: center;">
+                💰 You're already saving ₹${savings.toLocaleString()} from the original price!
+              </p>
+            </div>
+            ` : ''}
+
+            ${scrapedData.is_out_of_stock ? `
+            <div style="background-color: #fef2f2; border: 1px solid #fecaca; padding: 15px; border-radius: 6px; margin-top: 15px;">
+              <p style="margin: 0; color: #dc2626; font-weight: 600; text-align: center;">
+                📦 This product is currently out of stock. We'll notify you when it becomes available!
+              </p>
+            </div>
+            ` : ''}
+          </div>
+
+          <!-- What Happens Next -->
+          <div style="background-color: #eff6ff; border-left: 4px solid #2563eb; padding: 20px; margin-bottom: 25px;">
+            <h4 style="color: #1e40af; margin: 0 0 12px 0; font-size: 18px;">📋 What happens next?</h4>
+            <ul style="color: #1e40af; margin: 0; padding-left: 20px; line-height: 1.6;">
+              <li>We'll check this product's price and stock status every hour</li>
+              <li>You'll receive email alerts when prices drop or stock becomes available</li>
+              <li>Set custom price alerts for even better deals</li>
+              <li>View price history and trends in your dashboard</li>
+            </ul>
+          </div>
+
+          <!-- Action Buttons -->
+          <div style="text-align: center; margin-bottom: 25px;">
+            <a href="${productUrl}" 
+               style="display: inline-block; background-color: #2563eb; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600; margin: 0 10px 10px 0; font-size: 16px;">
+              🛒 View on ${storeName(productUrl)}
+            </a>
+          </div>
+
+          <!-- Email Confirmation -->
+          <div style="background-color: #f0fdf4; border: 1px solid #bbf7d0; padding: 15px; border-radius: 6px; margin-bottom: 20px;">
+            <p style="margin: 0; color: #166534; text-align: center; font-weight: 500;">
+              ✉️ Email notifications are working! You'll receive alerts at <strong>${userEmail}</strong>
+            </p>
+          </div>
+
+          <!-- Footer -->
+          <div style="border-top: 1px solid #e2e8f0; padding-top: 20px; text-align: center;">
+            <p style="color: #64748b; font-size: 14px; margin: 0 0 10px 0;">
+              Happy shopping! 🛍️ We'll help you find the best deals.
+            </p>
+            <p style="color: #94a3b8; font-size: 12px; margin: 0;">
+              You received this email because you started tracking a product on PriceTracker.
+            </p>
+          </div>
+        </div>
+      </div>
+  `,
+  };
+}
+
+export function stockAlertEmail(product: ProductSummary & { sale_price: number | null; condition: string }): EmailContent {
+  return {
+    subject: `🎉 Back in Stock: ${product.title}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #059669;">Great News! Product is Back in Stock!</h2>
+        <p>The product you've been tracking is now available for purchase.</p>
+        
+        <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <h3 style="margin: 0 0 10px 0;">${product.title}</h3>
+          ${product.sale_price !== null ? `<p style="margin: 5px 0;"><strong>Current Price:</strong> ₹${product.sale_price.toLocaleString()}</p>` : ''}
+          <p style="margin: 5px 0;"><strong>Status:</strong> <span style="color: #059669; font-weight: bold;">In Stock</span></p>
+          <p style="margin: 5px 0;"><strong>Condition:</strong> ${product.condition}</p>
+        </div>
+        
+        <a href="${product.url}" 
+           style="display: inline-block; background-color: #059669; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0;">
+          Buy Now on ${storeName(product.url)}
+        </a>
+        
+        <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
+          Don't wait too long - popular items can go out of stock quickly!
+        </p>
+      </div>
+  `,
+  };
+}
+
+export function priceAlertEmail(
+  product: ProductSummary,
+  newPrice: number,
+  rule: string,
+  reason: string,
+  recurring = false,
+): EmailContent {
+  return {
+    subject: `🎉 Price Alert: ${product.title} is now ₹${newPrice.toLocaleString()}!`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #2563eb;">Price Alert Triggered!</h2>
+        <p>The price of your tracked product has met the condition of your alert.</p>
+        
+        <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <h3 style="margin: 0 0 10px 0;">${product.title}</h3>
+          <p style="margin: 5px 0;"><strong>New Price:</strong> ₹${newPrice.toLocaleString()}</p>
+          <p style="margin: 5px 0;"><strong>Your Alert:</strong> ${rule}</p>
+          <p style="margin: 5px 0;"><strong>Why:</strong> ${reason}</p>
+        </div>
+        
+        <a href="${product.url}" 
+           style="display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0;">
+          View Product on ${storeName(product.url)}
+        </a>
+        
+        <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
+          ${recurring
+            ? "This alert stays active, and you'll be notified again the next time it triggers."
+            : "This alert has been automatically deactivated. You can set up a new alert if you'd like to continue tracking this product."}
+        </p>
+        
+        <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+        <p style="color: #6b7280; font-size: 12px;">
+          You received this email because you set up a price alert on PriceTracker.
+        </p>
+      </div>
+  `,
+  };
+}
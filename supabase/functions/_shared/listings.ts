@@ -0,0 +1,25 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Returns the id of the listing for `canonicalUrl` (see `parseProductUrl`)
+ * and `variantKey` (see `variantKey`, empty for the page's default variant),
+ * creating it on first use. Every product row tracking the same variant of a
+ * page shares this listing and its price history.
+ */
+export async function findOrCreateListing(
+  supabase: SupabaseClient,
+  canonicalUrl: string,
+  variantKey = '',
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('listings')
+    .upsert({ canonical_url: canonicalUrl, variant_key: variantKey }, { onConflict: 'canonical_url,variant_key' })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to resolve listing: ${error.message}`);
+  }
+
+  return data.id;
+}
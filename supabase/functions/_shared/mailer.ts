@@ -0,0 +1,152 @@
+import nodemailer from 'npm:nodemailer@6';
+import type { EmailContent } from './email-templates.ts';
+
+export interface EmailMessage extends EmailContent {
+  to: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+const DEFAULT_FROM = 'PriceTracker <noreply@resend.dev>';
+
+export function createResendTransport(apiKey: string): MailTransport {
+  return {
+    name: 'resend',
+    async send(message) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        throw new Error(`Resend API error: ${response.status} - ${errorData}`);
+      }
+    },
+  };
+}
+
+interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+      });
+    },
+  };
+}
+
+/** Logs messages instead of delivering them. Every send succeeds. */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log('📧 EMAIL (console transport)');
+      console.log('From:', message.from);
+      console.log('To:', message.to);
+      console.log('Subject:', message.subject);
+    },
+  };
+}
+
+/**
+ * Writes each message as a JSON file into `directory`, so local runs and tests
+ * can inspect exactly what would have been delivered.
+ */
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await Deno.mkdir(directory, { recursive: true });
+      const fileName = `${Date.now()}-${crypto.randomUUID()}.json`;
+      await Deno.writeTextFile(
+        `${directory}/${fileName}`,
+        JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+/**
+ * Picks the transport from `MAIL_TRANSPORT` (`resend`, `smtp`, `file` or
+ * `console`). Without it, Resend is used when `RESEND_API_KEY` is set and the
+ * console otherwise.
+ */
+export function createTransportFromEnv(): MailTransport {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY');
+  const transport = Deno.env.get('MAIL_TRANSPORT') ?? (resendApiKey ? 'resend' : 'console');
+
+  switch (transport) {
+    case 'resend':
+      if (!resendApiKey) {
+        throw new Error('RESEND_API_KEY is required for the resend mail transport');
+      }
+      return createResendTransport(resendApiKey);
+    case 'smtp': {
+      const host = Deno.env.get('SMTP_HOST');
+      if (!host) {
+        throw new Error('SMTP_HOST is required for the smtp mail transport');
+      }
+      return createSmtpTransport({
+        host,
+        port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+        secure: Deno.env.get('SMTP_SECURE') === 'true',
+        user: Deno.env.get('SMTP_USER'),
+        pass: Deno.env.get('SMTP_PASS'),
+      });
+    }
+    case 'file':
+      return createFileTransport(Deno.env.get('MAIL_OUTPUT_DIR') ?? '/tmp/pricetracker-mail');
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+let defaultTransport: MailTransport | null = null;
+
+/**
+ * Delivers a message through the configured transport. Throws when delivery
+ * fails so callers can decide whether to retry or keep state unchanged.
+ */
+export async function sendEmail(message: EmailMessage, transport?: MailTransport): Promise<void> {
+  if (!message.to) {
+    throw new Error('Email recipient is missing');
+  }
+
+  const selected = transport ?? (defaultTransport ??= createTransportFromEnv());
+  await selected.send({ ...message, from: Deno.env.get('MAIL_FROM') ?? DEFAULT_FROM });
+  console.log(`✅ Email "${message.subject}" sent to ${message.to} via ${selected.name}`);
+}
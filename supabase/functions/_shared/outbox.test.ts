@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { releaseAlertTrigger } from './outbox.ts';
+
+interface Update {
+  values: Record<string, unknown>;
+  filters: Record<string, unknown>;
+}
+
+// Only `price_alerts` lookups by id and filtered updates are used
+function fakeSupabase(alert: { trigger_count: number } | null) {
+  const updates: Update[] = [];
+
+  const supabase = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({ data: alert, error: null }),
+        }),
+      }),
+      update: (values: Record<string, unknown>) => {
+        const update: Update = { values, filters: {} };
+        updates.push(update);
+        const query = {
+          eq: (column: string, value: unknown) => {
+            update.filters[column] = value;
+            return query;
+          },
+          then: (resolve: (result: { error: null }) => void) => resolve({ error: null }),
+        };
+        return query;
+      },
+    }),
+  } as unknown as SupabaseClient;
+
+  return { supabase, updates };
+}
+
+describe('releaseAlertTrigger', () => {
+  it('re-arms the alert and takes back its trigger', async () => {
+    const { supabase, updates } = fakeSupabase({ trigger_count: 3 });
+
+    await releaseAlertTrigger(supabase, 'alert-1');
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].values).toMatchObject({ is_armed: true, trigger_count: 2 });
+    expect(updates[0].filters).toEqual({ id: 'alert-1', trigger_count: 3 });
+  });
+
+  it('does nothing for a deleted alert', async () => {
+    const { supabase, updates } = fakeSupabase(null);
+
+    await releaseAlertTrigger(supabase, 'alert-1');
+
+    expect(updates).toHaveLength(0);
+  });
+});
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { EmailContent } from './email-templates.ts';
+
+export type NotificationKind = 'tracking_confirmation' | 'price_alert' | 'stock_alert';
+
+export interface NotificationRequest {
+  userId: string;
+  kind: NotificationKind;
+  content: EmailContent;
+  /** Known address; otherwise resolved from the user's auth record when sent */
+  recipient?: string;
+  productId?: string;
+  /** Alert to deactivate once the notification has been delivered */
+  alertId?: string;
+  /** While a notification with this key is undelivered, duplicates are dropped */
+  dedupeKey?: string;
+}
+
+/**
+ * Queues a notification for the `send-notifications` function. Returns the
+ * new row id, or null when an undelivered duplicate already exists.
+ */
+export async function enqueueNotification(
+  supabase: SupabaseClient,
+  request: NotificationRequest,
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('enqueue_notification', {
+    p_user_id: request.userId,
+    p_kind: request.kind,
+    p_subject: request.content.subject,
+    p_html: request.content.html,
+    p_recipient: request.recipient ?? null,
+    p_product_id: request.productId ?? null,
+    p_alert_id: request.alertId ?? null,
+    p_dedupe_key: request.dedupeKey ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to enqueue notification: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Looks up a user's email through the auth admin API. `auth.users` is not
+ * exposed to PostgREST, so it cannot be joined from public tables.
+ */
+export async function resolveRecipient(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+
+  if (error) {
+    throw new Error(`Failed to look up user ${userId}: ${error.message}`);
+  }
+  if (!data.user?.email) {
+    throw new Error(`User ${userId} has no email address`);
+  }
+
+  return data.user.email;
+}
+
+/**
+ * Hands back the trigger of an alert whose notification was given up on, so
+ * the alert fires again on a later check instead of counting an email that
+ * never arrived. `trigger_count` guards against a check that fired it since.
+ */
+export async function releaseAlertTrigger(supabase: SupabaseClient, alertId: string): Promise<void> {
+  const { data: alert, error } = await supabase
+    .from('price_alerts')
+    .select('trigger_count')
+    .eq('id', alertId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load alert ${alertId}: ${error.message}`);
+  }
+  if (!alert) return;
+
+  const { error: updateError } = await supabase
+    .from('price_alerts')
+    .update({
+      is_armed: true,
+      trigger_count: Math.max(alert.trigger_count - 1, 0),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', alertId)
+    .eq('trigger_count', alert.trigger_count);
+
+  if (updateError) {
+    throw new Error(`Failed to release alert ${alertId}: ${updateError.message}`);
+  }
+}
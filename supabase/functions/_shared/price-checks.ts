@@ -0,0 +1,47 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { ScrapeResult } from './scraper.ts';
+
+export type PricePointSource = 'initial' | 'scheduled' | 'manual';
+
+/**
+ * Persists the outcome of one check of a listing, failed or not. Unchanged
+ * observations extend the listing's latest price point instead of adding a
+ * row (see the `record_price_check` SQL function).
+ */
+export async function recordPriceCheck(
+  supabase: SupabaseClient,
+  listingId: string,
+  result: ScrapeResult,
+  source: PricePointSource,
+  checkedAt: string,
+) {
+  const params = result.status === 'failed'
+    ? {
+        p_price: null,
+        p_mrp: null,
+        p_discount: null,
+        p_in_stock: null,
+        p_failure_reason: result.reason,
+      }
+    : {
+        p_price: result.data.sale_price,
+        p_mrp: result.data.mrp,
+        p_discount: result.data.mrp !== null && result.data.sale_price !== null
+          ? parseFloat(result.data.discount)
+          : null,
+        p_in_stock: !result.data.is_out_of_stock,
+        p_failure_reason: null,
+      };
+
+  const { error } = await supabase.rpc('record_price_check', {
+    p_listing_id: listingId,
+    p_outcome: result.status,
+    p_source: source,
+    p_checked_at: checkedAt,
+    ...params,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record price check: ${error.message}`);
+  }
+}
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from './cors.ts';
+import { QUOTA_WINDOW_HOURS, quotaLimit, resolveQuotas, type QuotaKind, type Quotas } from './quotas.ts';
+
+export type QuotaCheck =
+  | { allowed: true; used: number }
+  | { allowed: false; used: number; retryAfterSeconds: number };
+
+/** A user's quotas, from their profile's tier and overrides */
+export async function fetchQuotas(supabase: SupabaseClient, userId: string): Promise<Quotas> {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('tier, max_products, refreshes_per_hour, adds_per_day')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load quotas: ${error.message}`);
+  }
+
+  return resolveQuotas(profile);
+}
+
+/**
+ * Records `amount` uses of a user's `kind` quota if they fit, atomically (see
+ * the `consume_quota` SQL function). An `amount` of 0 only checks that one
+ * more would fit.
+ */
+export async function consumeQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  quotas: Quotas,
+  kind: QuotaKind,
+  amount = 1,
+): Promise<QuotaCheck> {
+  const { data, error } = await supabase
+    .rpc('consume_quota', {
+      p_user_id: userId,
+      p_kind: kind,
+      p_limit: quotaLimit(quotas, kind),
+      p_window: `${QUOTA_WINDOW_HOURS[kind]} hours`,
+      p_amount: amount,
+    })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to check quota: ${error.message}`);
+  }
+
+  const { allowed, used, retry_after_seconds } = data as {
+    allowed: boolean;
+    used: number;
+    retry_after_seconds: number;
+  };
+  return allowed
+    ? { allowed: true, used }
+    : { allowed: false, used, retryAfterSeconds: retry_after_seconds };
+}
+
+/**
+ * Gives back `amount` uses of a user's `kind` quota recorded for a request
+ * that then failed, by removing their newest events.
+ */
+export async function refundQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  kind: QuotaKind,
+  amount: number,
+): Promise<void> {
+  const { data: events, error } = await supabase
+    .from('quota_events')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('kind', kind)
+    .order('created_at', { ascending: false })
+    .limit(amount);
+
+  if (error) {
+    throw new Error(`Failed to load quota usage: ${error.message}`);
+  }
+  if (!events?.length) return;
+
+  const { error: deleteError } = await supabase
+    .from('quota_events')
+    .delete()
+    .in('id', events.map(event => event.id));
+
+  if (deleteError) {
+    throw new Error(`Failed to refund quota: ${deleteError.message}`);
+  }
+}
+
+/** 429 telling the app what ran out and when to try again */
+export function quotaExceededResponse(message: string, retryAfterSeconds: number): Response {
+  return new Response(
+    JSON.stringify({ error: message, code: 'QUOTA_EXCEEDED', retryAfter: retryAfterSeconds }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'Retry-After': String(retryAfterSeconds),
+      },
+    }
+  );
+}
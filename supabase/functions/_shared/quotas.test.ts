@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { formatRetryAfter, quotaLimit, resolveQuotas } from './quotas.ts';
+
+describe('resolveQuotas', () => {
+  it('uses the tier defaults, and the free tier without a profile', () => {
+    expect(resolveQuotas(null)).toEqual({ maxProducts: 25, refreshesPerHour: 10, addsPerDay: 20 });
+    expect(resolveQuotas({ tier: 'pro' })).toEqual({ maxProducts: 200, refreshesPerHour: 60, addsPerDay: 100 });
+  });
+
+  it('prefers the profile overrides, including zero', () => {
+    const quotas = resolveQuotas({ tier: 'free', max_products: 500, refreshes_per_hour: 0, adds_per_day: null });
+    expect(quotas).toEqual({ maxProducts: 500, refreshesPerHour: 0, addsPerDay: 20 });
+    expect(quotaLimit(quotas, 'refresh')).toBe(0);
+    expect(quotaLimit(quotas, 'add')).toBe(20);
+  });
+});
+
+describe('formatRetryAfter', () => {
+  it('rounds up to the largest sensible unit', () => {
+    expect(formatRetryAfter(1)).toBe('in 1 second');
+    expect(formatRetryAfter(45)).toBe('in 45 seconds');
+    expect(formatRetryAfter(61)).toBe('in 2 minutes');
+    expect(formatRetryAfter(3600)).toBe('in 1 hour');
+    expect(formatRetryAfter(3 * 3600 - 5)).toBe('in 3 hours');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Per-user limits on what the app lets users do on demand. Shared by the edge
+ * functions, which enforce them (see `consumeQuota`), and the web app, which
+ * shows what is left (imported there by relative path).
+ */
+import type { UserTier } from './scheduling.ts';
+
+export interface Quotas {
+  /** Products tracked at once */
+  maxProducts: number;
+  /** Manual `update-prices` calls per hour */
+  refreshesPerHour: number;
+  /** Products added through `scrape-product` per day */
+  addsPerDay: number;
+}
+
+/** Usage that is counted over a sliding window */
+export type QuotaKind = 'refresh' | 'add';
+
+export const QUOTA_WINDOW_HOURS: Record<QuotaKind, number> = {
+  refresh: 1,
+  add: 24,
+};
+
+const TIER_QUOTAS: Record<UserTier, Quotas> = {
+  free: { maxProducts: 25, refreshesPerHour: 10, addsPerDay: 20 },
+  pro: { maxProducts: 200, refreshesPerHour: 60, addsPerDay: 100 },
+};
+
+/** The quota columns of a profile; null keeps the tier's default */
+export interface QuotaProfile {
+  tier: UserTier;
+  max_products?: number | null;
+  refreshes_per_hour?: number | null;
+  adds_per_day?: number | null;
+}
+
+/** Quotas of a user. Users without a profile row are on the free tier. */
+export function resolveQuotas(profile: QuotaProfile | null): Quotas {
+  const defaults = TIER_QUOTAS[profile?.tier ?? 'free'];
+  return {
+    maxProducts: profile?.max_products ?? defaults.maxProducts,
+    refreshesPerHour: profile?.refreshes_per_hour ?? defaults.refreshesPerHour,
+    addsPerDay: profile?.adds_per_day ?? defaults.addsPerDay,
+  };
+}
+
+export function quotaLimit(quotas: Quotas, kind: QuotaKind): number {
+  return kind === 'refresh' ? quotas.refreshesPerHour : quotas.addsPerDay;
+}
+
+/** e.g. "in 45 seconds", "in 12 minutes", "in 3 hours" */
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `in ${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.ceil(minutes / 60);
+  return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHostRateLimiter } from './rate-limit.ts';
+
+const PAGE = 'https://www.cashify.in/buy-refurbished-mobile-phones/phone-12345';
+const OTHER_HOST_PAGE = 'https://m.example.com/phone-12345';
+
+// Reports whether the promise has settled, without waiting for it
+function track(promise: Promise<boolean>) {
+  const state: { settled: boolean; value?: boolean } = { settled: false };
+  promise.then(value => {
+    state.settled = true;
+    state.value = value;
+  });
+  return state;
+}
+
+describe('createHostRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets a burst through without waiting', async () => {
+    const limiter = createHostRateLimiter({ ratePerSecond: 2, burst: 3 });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(limiter.acquire(PAGE)).resolves.toBe(true);
+    }
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('spaces requests past the burst by the rate', async () => {
+    const limiter = createHostRateLimiter({ ratePerSecond: 2, burst: 1 });
+    await limiter.acquire(PAGE);
+
+    const second = track(limiter.acquire(PAGE));
+    const third = track(limiter.acquire(PAGE));
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(second.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(second).toEqual({ settled: true, value: true });
+    expect(third.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(third).toEqual({ settled: true, value: true });
+  });
+
+  it('refills tokens over time, up to the burst', async () => {
+    const limiter = createHostRateLimiter({ ratePerSecond: 1, burst: 2 });
+    await limiter.acquire(PAGE);
+    await limiter.acquire(PAGE);
+
+    vi.advanceTimersByTime(10_000);
+
+    await limiter.acquire(PAGE);
+    await limiter.acquire(PAGE);
+    expect(vi.getTimerCount()).toBe(0);
+
+    const third = track(limiter.acquire(PAGE));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(third.settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(third.settled).toBe(true);
+  });
+
+  it('keeps a separate bucket per host', async () => {
+    const limiter = createHostRateLimiter({ ratePerSecond: 1, burst: 1 });
+    await limiter.acquire(PAGE);
+
+    await expect(limiter.acquire(OTHER_HOST_PAGE)).resolves.toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('gives up at once when the slot opens after the deadline', async () => {
+    const limiter = createHostRateLimiter({ ratePerSecond: 1, burst: 1 });
+    await limiter.acquire(PAGE);
+
+    await expect(limiter.acquire(PAGE, Date.now() + 500)).resolves.toBe(false);
+    expect(vi.getTimerCount()).toBe(0);
+
+    // Giving up reserved nothing, so the next slot is still a second out
+    const next = track(limiter.acquire(PAGE, Date.now() + 1000));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(next).toEqual({ settled: true, value: true });
+  });
+});
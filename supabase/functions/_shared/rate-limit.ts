@@ -0,0 +1,51 @@
+export interface RateLimiterOptions {
+  /** Sustained requests per second allowed against one host */
+  ratePerSecond: number;
+  /** Requests that may go out back to back before the rate applies */
+  burst: number;
+}
+
+export interface HostRateLimiter {
+  /**
+   * Waits until a request to `url`'s host is allowed. Resolves false without
+   * waiting when the slot would only open after `deadline` (epoch ms).
+   */
+  acquire(url: string, deadline?: number): Promise<boolean>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket per host. Tokens are reserved synchronously and may go
+ * negative, so concurrent callers queue up behind each other instead of all
+ * waking at the same moment.
+ */
+export function createHostRateLimiter({ ratePerSecond, burst }: RateLimiterOptions): HostRateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    async acquire(url, deadline) {
+      const host = new URL(url).host;
+      const now = Date.now();
+      const bucket = buckets.get(host) ?? { tokens: burst, updatedAt: now };
+
+      bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * ratePerSecond);
+      bucket.updatedAt = now;
+      buckets.set(host, bucket);
+
+      const wait = bucket.tokens >= 1 ? 0 : ((1 - bucket.tokens) / ratePerSecond) * 1000;
+      if (deadline !== undefined && now + wait > deadline) {
+        return false;
+      }
+
+      bucket.tokens -= 1;
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      return true;
+    },
+  };
+}
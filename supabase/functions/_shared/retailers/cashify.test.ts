@@ -0,0 +1,71 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { cashify } from './cashify.ts';
+
+const PRODUCT_URL = 'https://www.cashify.in/buy-refurbished-mobile-phones/apple-iphone-12-refurbished-5f2c9a1e';
+
+function loadPage(name: string) {
+  return readFileSync(new URL(`../fixtures/cashify/${name}.html`, import.meta.url), 'utf8');
+}
+
+describe('cashify.canonicalize', () => {
+  it('normalizes host aliases, case, tracking params and trailing slashes', () => {
+    const canonicalize = (url: string) => cashify.canonicalize(new URL(url));
+
+    expect(canonicalize('http://m.cashify.in//Buy-Refurbished-Mobile-Phones/Apple-iPhone-12-Refurbished-5F2C9A1E/?utm_source=x#top'))
+      .toBe(PRODUCT_URL);
+    expect(canonicalize(PRODUCT_URL)).toBe(PRODUCT_URL);
+  });
+});
+
+describe('cashify.parse', () => {
+  it('fails when an in-stock page has no price', () => {
+    const withoutPrice = loadPage('in-stock').replace(/<span[^>]*itemprop="price"[^>]*>[^<]*<\/span>/, '');
+
+    expect(cashify.parse(withoutPrice, PRODUCT_URL)).toMatchObject({
+      status: 'failed',
+      reason: 'PRICE_NOT_FOUND',
+    });
+  });
+
+  it('fails when neither the default listing nor any variant has a price', () => {
+    const withoutPrices = loadPage('default-variant-unpriced').replace(/"salePrice": \d+/g, '"salePrice": null');
+
+    expect(cashify.parse(withoutPrices, PRODUCT_URL)).toMatchObject({
+      status: 'failed',
+      reason: 'PRICE_NOT_FOUND',
+    });
+  });
+
+  it('prefers structured data over the HTML patterns', () => {
+    const withClassicMarkup = loadPage('redesign-json-ld').replace(
+      '</body>',
+      '<h1>Old Title</h1><span class="h1" itemprop="price">₹1,000</span></body>'
+    );
+
+    const result = cashify.parse(withClassicMarkup, PRODUCT_URL);
+    expect(result.status).toBe('success');
+    if (result.status === 'failed') return;
+    expect(result.data.title).toBe('Apple iPhone 13 - Refurbished');
+    expect(result.data.sale_price).toBe(38499);
+    expect(result.sources.sale_price).toBe('json-ld');
+  });
+
+  it('reads the variant description by content, not position', () => {
+    const withoutWarranty = loadPage('in-stock').replace('Cashify Warranty, Fair,', 'Fair,');
+
+    expect(cashify.parse(withoutWarranty, PRODUCT_URL)).toMatchObject({
+      data: { condition: 'Fair', ram: '4 GB', storage: '4 GB / 64 GB', color: 'Blue' },
+    });
+  });
+
+  it('leaves out variants when the page offers only one', () => {
+    const singleVariant = loadPage('multi-variant').replace(/,\s*\{ "skuId": "s21fe-olive-8-128-good-w12"[\s\S]*?\]/, ']');
+
+    const result = cashify.parse(singleVariant, PRODUCT_URL);
+    expect(result.status).toBe('success');
+    if (result.status === 'failed') return;
+    expect(result.data.variants).toBeUndefined();
+    expect(result.sources.variants).toBeUndefined();
+  });
+});
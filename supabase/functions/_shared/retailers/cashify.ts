@@ -0,0 +1,476 @@
+/** Cashify (cashify.in), refurbished phones and electronics */
+import {
+  extractJsonLdProduct,
+  extractJsonLdVariants,
+  extractNextDataProduct,
+  extractNextDataVariants,
+  type ExtractedFields,
+} from '../structured-data.ts';
+import {
+  variantKey,
+  variantLabel,
+  type ExtractionStrategy,
+  type FieldSources,
+  type ScrapedData,
+  type ScrapedVariant,
+  type ScrapeResult,
+} from '../scraper.ts';
+import type { RetailerAdapter } from './index.ts';
+
+export interface CashifyUrl {
+  /** HTTPS, `www.cashify.in`, lowercase path, no query, fragment or trailing slash */
+  canonicalUrl: string;
+  /** Last path segment, which identifies the product */
+  slug: string;
+  /** Catalogue id at the end of the slug, when it carries one */
+  productId: string | null;
+}
+
+const CASHIFY_HOST = 'www.cashify.in';
+
+// Mobile and bare-domain links point at the same pages
+const CASHIFY_HOST_ALIASES = new Set(['cashify.in', 'www.cashify.in', 'm.cashify.in']);
+
+// Product pages live under a `buy-refurbished-*` category
+const PRODUCT_PATH_PATTERN = /^\/buy-refurbished[^/]*\/.+/;
+
+// Trailing slug token with both letters and digits or a long number, e.g.
+// `...-black-good-8f2k91` or `...-black-10245`. Capacities are split into
+// separate tokens (`128-gb`), so they never match.
+const PRODUCT_ID_PATTERN = /-((?=[a-z]*\d)(?=\d*[a-z])[a-z\d]{5,}|\d{4,})$/;
+
+/**
+ * Parses a Cashify product page URL, or returns null when `url` is not one.
+ * Query strings (UTM tags, referral ids) and fragments never select a
+ * different product, so they are dropped.
+ */
+export function parseCashifyUrl(url: string): CashifyUrl | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+  if (!CASHIFY_HOST_ALIASES.has(parsed.hostname.toLowerCase())) return null;
+
+  const path = parsed.pathname.toLowerCase().replace(/\/{2,}/g, '/').replace(/\/+$/, '');
+  if (!PRODUCT_PATH_PATTERN.test(path)) return null;
+
+  const slug = path.slice(path.lastIndexOf('/') + 1);
+  return {
+    canonicalUrl: `https://${CASHIFY_HOST}${path}`,
+    slug,
+    productId: slug.match(PRODUCT_ID_PATTERN)?.[1] ?? null,
+  };
+}
+
+/**
+ * Extracts product data from a Cashify product page. Does no I/O, so it can be
+ * run against saved HTML. `url` is only used to resolve relative image paths.
+ *
+ * Each field is taken from the first strategy that yields it: JSON-LD, then
+ * Next.js page data, then the HTML patterns. Variants only come from the
+ * structured data; the markup shows nothing but the selected one.
+ */
+export function parseCashifyHtml(html: string, url: string): ScrapeResult {
+  const htmlFields = extractFromHtml(html);
+  const strategies: [ExtractionStrategy, ExtractedFields | null][] = [
+    ['json-ld', extractJsonLdProduct(html)],
+    ['next-data', extractNextDataProduct(html)],
+    ['html', htmlFields],
+  ];
+
+  const sources: FieldSources = {};
+  const pick = <K extends keyof ExtractedFields>(field: K): ExtractedFields[K] | undefined => {
+    for (const [strategy, fields] of strategies) {
+      const value = fields?.[field];
+      if (value !== undefined && value !== '') {
+        sources[field] = strategy;
+        return value;
+      }
+    }
+    return undefined;
+  };
+
+  const isOutOfStock = pick('is_out_of_stock') ?? false;
+  const sale_price = pick('sale_price') ?? null;
+  const mrp = pick('mrp') ?? null;
+  const ram = pick('ram') ?? '';
+  const storage = pick('storage') ?? '';
+  let title = pick('title') ?? '';
+  let image_url = pick('image_url') ?? '';
+
+  // Prefer the discount shown on the page when it came from the same place as
+  // the price, otherwise derive it
+  let discount = '0%';
+  if (sources.sale_price === 'html' && htmlFields.discount) {
+    discount = htmlFields.discount;
+    sources.discount = 'html';
+  } else if (mrp && sale_price && mrp > sale_price) {
+    discount = deriveDiscount(mrp, sale_price);
+    sources.discount = sources.sale_price;
+  }
+
+  if (image_url && !image_url.startsWith('http')) {
+    image_url = new URL(image_url, url).href;
+  }
+
+  // Clean up title
+  title = title.replace(/\s*-\s*Cashify.*$/i, '').replace(/\s+/g, ' ').trim();
+  if (title.length > 100) {
+    title = title.substring(0, 100) + '...';
+  }
+
+  // Combine RAM and storage for the storage field if both are available
+  const finalStorage = combineCapacities(ram, storage);
+  if (ram && !storage) {
+    sources.storage = sources.ram;
+  }
+
+  // The default listing can be unpriced while its variants are, so only fail
+  // when there is no price to offer at all
+  const variants = extractVariants(html, sources);
+  if (!isOutOfStock && !sale_price && !variants?.some(variant => variant.sale_price)) {
+    return {
+      status: 'failed',
+      reason: 'PRICE_NOT_FOUND',
+      message: 'Could not extract price information from the page',
+    };
+  }
+
+  const data: ScrapedData = {
+    title,
+    mrp,
+    sale_price,
+    discount,
+    condition: pick('condition') ?? '',
+    storage: finalStorage,
+    ram,
+    color: pick('color') ?? '',
+    image_url: image_url || undefined,
+    is_out_of_stock: isOutOfStock
+  };
+
+  if (variants) {
+    data.variants = variants;
+  }
+
+  const missing = (['title', 'mrp', 'sale_price', 'condition', 'storage'] as const)
+    .filter(field => !data[field]);
+
+  return missing.length > 0
+    ? { status: 'partial', data, sources, missing }
+    : { status: 'success', data, sources };
+}
+
+// Variants from the first structured data source listing more than one
+function extractVariants(html: string, sources: FieldSources): ScrapedVariant[] | undefined {
+  const variantStrategies: [ExtractionStrategy, ExtractedFields[]][] = [
+    ['json-ld', extractJsonLdVariants(html)],
+    ['next-data', extractNextDataVariants(html)],
+  ];
+  for (const [strategy, fields] of variantStrategies) {
+    const variants = uniqueVariants(fields.map(toVariant));
+    if (variants.length > 1) {
+      sources.variants = strategy;
+      return variants;
+    }
+  }
+  return undefined;
+}
+
+function deriveDiscount(mrp: number, salePrice: number): string {
+  return `${Math.round(((mrp - salePrice) / mrp) * 100)}%`;
+}
+
+// "4 GB / 64 GB", or whichever of the two is known
+function combineCapacities(ram: string, storage: string): string {
+  return ram && storage ? `${ram} / ${storage}` : storage || ram;
+}
+
+function toVariant(fields: ExtractedFields): ScrapedVariant {
+  const mrp = fields.mrp ?? null;
+  const sale_price = fields.sale_price ?? null;
+  const attributes = {
+    condition: fields.condition ?? '',
+    storage: combineCapacities(fields.ram ?? '', fields.storage ?? ''),
+    color: fields.color ?? '',
+  };
+
+  return {
+    key: variantKey(attributes),
+    label: variantLabel(attributes),
+    mrp,
+    sale_price,
+    discount: mrp && sale_price && mrp > sale_price ? deriveDiscount(mrp, sale_price) : '0%',
+    ...attributes,
+    ram: fields.ram ?? '',
+    is_out_of_stock: fields.is_out_of_stock ?? false,
+  };
+}
+
+// Listings repeat a combination when it is sold with different warranties;
+// the first one is what the page offers for it
+function uniqueVariants(variants: ScrapedVariant[]): ScrapedVariant[] {
+  const seen = new Set<string>();
+  return variants.filter(variant => {
+    if (seen.has(variant.key)) return false;
+    seen.add(variant.key);
+    return true;
+  });
+}
+
+// Pattern-based extraction against Cashify's rendered markup. Brittle across
+// redesigns; only used for fields the structured data did not provide.
+function extractFromHtml(html: string): ExtractedFields {
+  // Check for out of stock first
+  const outOfStockPattern = /<h6[^>]*class="[^"]*subtitle1[^"]*text-center[^"]*py-2[^"]*px-1[^"]*sm:py-3[^"]*w-full[^"]*bg-primary\/70[^"]*text-primary-text-contrast[^"]*"[^>]*>Out of Stock<\/h6>/i;
+  const isOutOfStock = outOfStockPattern.test(html);
+
+  // Extract title from h1 tag or page title
+  let title = '';
+  const h1Match = html.match(/<h1[^>]*>([^<]+)<\/h1>/i);
+  if (h1Match) {
+    title = h1Match[1].trim();
+  } else {
+    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
+    title = titleMatch ? titleMatch[1].replace(/\s+/g, ' ').trim() : '';
+  }
+
+  // Extract MRP using the struck-through price element
+  let mrp = 0;
+  const mrpPattern = /<h6[^>]*class="[^"]*subtitle1[^"]*line-through[^"]*text-surface-text[^"]*"[^>]*>₹([0-9,]+)<\/h6>/i;
+  const mrpMatch = html.match(mrpPattern);
+  if (mrpMatch) {
+    mrp = parseInt(mrpMatch[1].replace(/,/g, ''));
+  }
+
+  // Fallback MRP patterns if the specific one doesn't match
+  if (!mrp) {
+    const fallbackMrpPatterns = [
+      /<h6[^>]*line-through[^>]*>₹([0-9,]+)<\/h6>/gi,
+      /<[^>]*line-through[^>]*>₹([0-9,]+)<\/[^>]*>/gi,
+      /₹([0-9,]+)[^0-9]*<\/del>/gi,
+      /₹([0-9,]+)[^0-9]*<\/s>/gi,
+    ];
+
+    for (const pattern of fallbackMrpPatterns) {
+      const match = pattern.exec(html);
+      if (match) {
+        const price = parseInt(match[1].replace(/,/g, ''));
+        if (price > 0 && price < 2000000) {
+          mrp = price;
+          break;
+        }
+      }
+    }
+  }
+
+  // Extract sale price using the itemprop="price" element
+  let sale_price = 0;
+  if (!isOutOfStock) {
+    const salePricePattern = /<span[^>]*class="[^"]*h1[^"]*"[^>]*itemprop="price"[^>]*>₹([0-9,]+)<\/span>/i;
+    const salePriceMatch = html.match(salePricePattern);
+    if (salePriceMatch) {
+      sale_price = parseInt(salePriceMatch[1].replace(/,/g, ''));
+    }
+
+    // Fallback sale price patterns if the specific one doesn't match
+    if (!sale_price) {
+      const fallbackSalePricePatterns = [
+        /<span[^>]*itemprop="price"[^>]*>₹([0-9,]+)<\/span>/gi,
+        /<span[^>]*class="[^"]*h1[^"]*"[^>]*>₹([0-9,]+)<\/span>/gi,
+        /"price"[^:]*:\s*"?₹?\s*([0-9,]+)"?/gi,
+        /class="[^"]*price[^"]*"[^>]*>₹\s*([0-9,]+)/gi,
+      ];
+
+      for (const pattern of fallbackSalePricePatterns) {
+        const match = pattern.exec(html);
+        if (match) {
+          const price = parseInt(match[1].replace(/,/g, ''));
+          if (price > 0 && price < 2000000) {
+            sale_price = price;
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  // Extract discount using the red "-NN%" element
+  let discount = '0%';
+  if (!isOutOfStock) {
+    const discountPattern = /<div[^>]*class="[^"]*h1[^"]*text-error[^"]*"[^>]*>-<!--\s*-->([0-9]+)<!--\s*-->%<\/div>/i;
+    const discountMatch = html.match(discountPattern);
+    if (discountMatch) {
+      discount = `${discountMatch[1]}%`;
+    }
+
+    // Fallback discount patterns if the specific one doesn't match
+    if (discount === '0%') {
+      const fallbackDiscountPatterns = [
+        /<div[^>]*text-error[^>]*>-[^0-9]*([0-9]+)[^0-9]*%<\/div>/gi,
+        /([0-9]+)%\s*OFF/gi,
+        /([0-9]+)%\s*off/gi,
+        /-([0-9]+)%/gi,
+      ];
+
+      for (const pattern of fallbackDiscountPatterns) {
+        const match = pattern.exec(html);
+        if (match) {
+          discount = `${match[1]}%`;
+          break;
+        }
+      }
+    }
+
+    // If no discount found but we have both prices, calculate it
+    if (discount === '0%' && mrp > 0 && sale_price > 0 && mrp > sale_price) {
+      const discountPercent = Math.round(((mrp - sale_price) / mrp) * 100);
+      discount = `${discountPercent}%`;
+    }
+  }
+
+  // Extract detailed product information from the body element
+  let condition = '';
+  let storage = '';
+  let ram = '';
+  let color = '';
+
+  const bodyPattern = /<div[^>]*class="[^"]*body2[^"]*mb-2[^"]*text-surface-text[^"]*"[^>]*>([^<]+)<\/div>/i;
+  const bodyMatch = html.match(bodyPattern);
+
+  if (bodyMatch) {
+    ({ condition, ram, storage, color } = parseVariantDescription(bodyMatch[1]));
+  }
+
+  // Fallback condition extraction if not found in body
+  if (!condition) {
+    const conditionPatterns = [
+      /Cashify Warranty[^,]*,\s*([^,]+)/i,
+      /"condition"[^:]*:\s*"([^"]+)"/i,
+      /(Fair|Good|Excellent|Superb)/i,
+      /Condition[^>]*>([^<]+)</i,
+      /Grade[^>]*>([^<]+)</i,
+    ];
+
+    for (const pattern of conditionPatterns) {
+      const match = html.match(pattern);
+      if (match) {
+        condition = match[1].trim();
+        // Normalize condition values
+        if (condition.toLowerCase().includes('fair')) condition = 'Fair';
+        else if (condition.toLowerCase().includes('good')) condition = 'Good';
+        else if (condition.toLowerCase().includes('excellent')) condition = 'Excellent';
+        else if (condition.toLowerCase().includes('superb')) condition = 'Superb';
+        break;
+      }
+    }
+  }
+
+  // Fallback storage extraction if not found in body
+  if (!storage) {
+    const storagePatterns = [
+      /(\d+\s*GB)/gi,
+      /(\d+\s*TB)/gi,
+      /Storage[^>]*>([^<]*\d+[^<]*[GT]B[^<]*)</i,
+      /Memory[^>]*>([^<]*\d+[^<]*[GT]B[^<]*)</i
+    ];
+
+    // First try to extract from title
+    for (const pattern of storagePatterns) {
+      const matches = title.match(pattern);
+      if (matches) {
+        storage = matches[0].trim();
+        break;
+      }
+    }
+
+    // If not found in title, search in HTML
+    if (!storage) {
+      for (const pattern of storagePatterns) {
+        const matches = html.match(pattern);
+        if (matches) {
+          const storageValues = matches.map(m => m.trim()).filter(s => s.length < 20);
+          if (storageValues.length > 0) {
+            storage = storageValues[0];
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  // Extract image URL
+  let image_url = '';
+  const imagePatterns = [
+    /<img[^>]+src=["']([^"']*product[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
+    /<img[^>]+src=["']([^"']*mobile[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
+    /<img[^>]+src=["']([^"']*phone[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
+    /<img[^>]+src=["']([^"']*iphone[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
+    /<img[^>]+src=["']([^"']*\.(?:jpg|jpeg|png|webp))[^"']*["'][^>]*alt="[^"]*product[^"]*"/i
+  ];
+
+  for (const pattern of imagePatterns) {
+    const match = html.match(pattern);
+    if (match) {
+      image_url = match[1];
+      break;
+    }
+  }
+
+  return {
+    title: title || undefined,
+    mrp: mrp || undefined,
+    sale_price: sale_price || undefined,
+    discount: discount !== '0%' ? discount : undefined,
+    is_out_of_stock: isOutOfStock,
+    image_url: image_url || undefined,
+    condition: condition || undefined,
+    ram: ram || undefined,
+    storage: storage || undefined,
+    color: color || undefined,
+  };
+}
+
+const CONDITIONS = ['Fair', 'Good', 'Excellent', 'Superb'];
+
+/**
+ * Reads the selected variant's description, e.g. "Cashify Warranty, Fair,
+ * 6 GB / 128 GB, Pacific Blue". Parts are recognised by what they contain
+ * rather than where they are, since the warranty part is not always there.
+ */
+function parseVariantDescription(text: string) {
+  let condition = '';
+  let ram = '';
+  let storage = '';
+  let color = '';
+
+  for (const part of text.split(',').map(part => part.trim()).filter(Boolean)) {
+    const capacities = part.match(/\d+\s*[GT]B/gi);
+    if (/warranty/i.test(part)) {
+      continue;
+    } else if (capacities) {
+      // "6 GB / 128 GB" is RAM and storage; a single capacity is storage
+      storage = capacities[capacities.length - 1].trim();
+      ram = capacities.length > 1 ? capacities[0].trim() : '';
+    } else if (!condition && CONDITIONS.some(c => part.toLowerCase().includes(c.toLowerCase()))) {
+      condition = part;
+    } else if (!color) {
+      color = part;
+    }
+  }
+
+  return { condition, ram, storage, color };
+}
+
+export const cashify: RetailerAdapter = {
+  id: 'cashify',
+  name: 'Cashify',
+  currency: 'INR',
+  matchUrl: url => CASHIFY_HOST_ALIASES.has(url.hostname.toLowerCase()),
+  canonicalize: url => parseCashifyUrl(url.href)?.canonicalUrl ?? null,
+  parse: parseCashifyHtml,
+};
@@ -0,0 +1,60 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import type { ScrapeResult } from '../scraper.ts';
+import { parseProductUrl, RETAILERS } from './index.ts';
+
+// Each fixture is a saved page (`<name>.html`) and the result the retailer's
+// parser must produce for it (`<name>.json`), under `fixtures/<retailer id>/`.
+// Capture new ones with `npm run fixtures:capture`.
+const FIXTURES_DIR = new URL('../fixtures/', import.meta.url);
+
+interface Fixture {
+  url: string;
+  expected: ScrapeResult;
+}
+
+function fixtureNames(retailerId: string): string[] {
+  const dir = new URL(`${retailerId}/`, FIXTURES_DIR);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.html'))
+    .map(file => file.slice(0, -'.html'.length))
+    .sort();
+}
+
+function loadFixture(retailerId: string, name: string) {
+  const dir = new URL(`${retailerId}/`, FIXTURES_DIR);
+  const html = readFileSync(new URL(`${name}.html`, dir), 'utf8');
+  const fixture: Fixture = JSON.parse(readFileSync(new URL(`${name}.json`, dir), 'utf8'));
+  return { html, ...fixture };
+}
+
+describe.each(RETAILERS.map(retailer => [retailer.name, retailer] as const))('%s adapter', (_name, retailer) => {
+  const names = fixtureNames(retailer.id);
+
+  it('has fixtures', () => {
+    expect(names.length).toBeGreaterThan(0);
+  });
+
+  it.each(names)('parses the %s fixture', (name) => {
+    const { html, url, expected } = loadFixture(retailer.id, name);
+    expect(retailer.parse(html, url)).toEqual(expected);
+  });
+
+  it.each(names)('claims the URL of the %s fixture', (name) => {
+    const { url } = loadFixture(retailer.id, name);
+    expect(parseProductUrl(url)?.retailer).toBe(retailer);
+  });
+});
+
+describe('parseProductUrl', () => {
+  it('rejects URLs no retailer supports', () => {
+    expect(parseProductUrl('https://www.example.com/buy-refurbished-mobile-phones/phone-12345')).toBeNull();
+    expect(parseProductUrl('ftp://www.cashify.in/buy-refurbished-mobile-phones/phone-12345')).toBeNull();
+    expect(parseProductUrl('not a url')).toBeNull();
+  });
+
+  it('rejects non-product pages on a supported host', () => {
+    expect(parseProductUrl('https://www.cashify.in/sell-old-mobile-phone')).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Every store products can be tracked from. Shared by the edge functions and
+ * the web app (imported there by relative path), so both agree on which URLs
+ * are supported and what counts as the same listing.
+ *
+ * Supporting another store means writing an adapter, registering it in
+ * `RETAILERS` and saving fixtures for it under `_shared/fixtures/<id>/`.
+ */
+import type { ScrapeResult } from '../scraper.ts';
+import { cashify } from './cashify.ts';
+
+export interface RetailerAdapter {
+  /** Stable identifier, stored in `products.retailer` */
+  id: string;
+  /** Display name, e.g. in error messages and "View on ..." links */
+  name: string;
+  /** ISO 4217 code of the prices `parse` returns */
+  currency: string;
+  /** Whether `url` is on one of this retailer's hosts */
+  matchUrl(url: URL): boolean;
+  /**
+   * The canonical form of a product page URL on a matched host, or null when
+   * it is not a product page. URLs with the same canonical form are the same
+   * listing.
+   */
+  canonicalize(url: URL): string | null;
+  /** Extracts product data from a product page. Must not do any I/O. */
+  parse(html: string, url: string): ScrapeResult;
+}
+
+export const RETAILERS: RetailerAdapter[] = [cashify];
+
+export interface ProductUrl {
+  retailer: RetailerAdapter;
+  canonicalUrl: string;
+}
+
+export function getRetailer(id: string): RetailerAdapter | undefined {
+  return RETAILERS.find(retailer => retailer.id === id);
+}
+
+/** Finds the retailer for a product page URL, or returns null when none supports it */
+export function parseProductUrl(url: string): ProductUrl | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+
+  for (const retailer of RETAILERS) {
+    if (!retailer.matchUrl(parsed)) continue;
+    const canonicalUrl = retailer.canonicalize(parsed);
+    return canonicalUrl ? { retailer, canonicalUrl } : null;
+  }
+  return null;
+}
+
+/** e.g. "Cashify" or "Cashify and Example" */
+export function supportedRetailerNames(): string {
+  const names = RETAILERS.map(retailer => retailer.name);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+}
+
+/**
+ * Environment variable that redirects a retailer's fetches to another origin,
+ * e.g. `CASHIFY_BASE_URL` for the local mock server
+ */
+export function baseUrlEnvName(retailer: RetailerAdapter): string {
+  return `${retailer.id.toUpperCase()}_BASE_URL`;
+}
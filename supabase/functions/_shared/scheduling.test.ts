@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { AlertRule } from './alerts.ts';
+import {
+  failureBackoffMinutes,
+  nextCheckIntervalMinutes,
+  PAUSE_AFTER_FAILURES,
+  shouldPause,
+  type ScheduleInputs,
+} from './scheduling.ts';
+
+function interval(inputs: Partial<ScheduleInputs>) {
+  return nextCheckIntervalMinutes({
+    tier: 'free',
+    recentChanges: 0,
+    price: 10000,
+    isOutOfStock: false,
+    alerts: [],
+    ...inputs,
+  });
+}
+
+function targetAlert(target_price: number): AlertRule {
+  return { rule_type: 'target_price', target_price, threshold: null, baseline_price: null };
+}
+
+describe('nextCheckIntervalMinutes', () => {
+  it('starts from the tier, doubled for stable listings', () => {
+    expect(interval({ tier: 'free' })).toBe(120);
+    expect(interval({ tier: 'pro' })).toBe(40);
+  });
+
+  it('checks volatile listings more often', () => {
+    expect(interval({ recentChanges: 1 })).toBe(45);
+    expect(interval({ recentChanges: 4 })).toBe(45);
+    expect(interval({ recentChanges: 5 })).toBe(30);
+  });
+
+  it('checks out-of-stock listings half as often', () => {
+    expect(interval({ isOutOfStock: true })).toBe(240);
+  });
+
+  it('checks sooner the closer the price is to an alert', () => {
+    expect(interval({ alerts: [targetAlert(5000)] })).toBe(120);
+    expect(interval({ alerts: [targetAlert(9000)] })).toBe(90);
+    expect(interval({ alerts: [targetAlert(9600)] })).toBe(60);
+    expect(interval({ alerts: [targetAlert(9900), targetAlert(5000)] })).toBe(30);
+  });
+
+  it('ignores alerts while the price is unknown', () => {
+    expect(interval({ price: null, alerts: [targetAlert(9900)] })).toBe(120);
+  });
+
+  it('never checks more often than every 10 minutes', () => {
+    expect(interval({ tier: 'pro', recentChanges: 5, alerts: [targetAlert(10000)] })).toBe(10);
+  });
+});
+
+describe('failureBackoffMinutes', () => {
+  it('doubles the tier interval for every failure after the first', () => {
+    expect(failureBackoffMinutes('free', 1)).toBe(60);
+    expect(failureBackoffMinutes('free', 2)).toBe(120);
+    expect(failureBackoffMinutes('free', 3)).toBe(240);
+    expect(failureBackoffMinutes('pro', 3)).toBe(80);
+  });
+
+  it('waits at most a day', () => {
+    expect(failureBackoffMinutes('free', 6)).toBe(24 * 60);
+    expect(failureBackoffMinutes('pro', 20)).toBe(24 * 60);
+  });
+});
+
+describe('shouldPause', () => {
+  it('pauses once failures reach the threshold', () => {
+    expect(PAUSE_AFTER_FAILURES).toBe(6);
+    expect(shouldPause(PAUSE_AFTER_FAILURES - 1)).toBe(false);
+    expect(shouldPause(PAUSE_AFTER_FAILURES)).toBe(true);
+    expect(shouldPause(PAUSE_AFTER_FAILURES + 1)).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import type { AlertRule } from './alerts.ts';
+
+export type UserTier = 'free' | 'pro';
+
+export interface ScheduleInputs {
+  tier: UserTier;
+  /** Price or stock changes of the listing over `VOLATILITY_WINDOW_DAYS` */
+  recentChanges: number;
+  /** Current sale price, null when unknown */
+  price: number | null;
+  isOutOfStock: boolean;
+  /** Active alerts on the product, for proximity to their trigger price */
+  alerts: AlertRule[];
+}
+
+export const VOLATILITY_WINDOW_DAYS = 7;
+
+const MINUTE_MS = 60 * 1000;
+
+/** Interval for a product with nothing notable about it */
+const BASE_INTERVAL_MINUTES: Record<UserTier, number> = {
+  free: 60,
+  pro: 20,
+};
+
+const MIN_INTERVAL_MINUTES = 10;
+const MAX_INTERVAL_MINUTES = 24 * 60;
+
+/** Consecutive failed checks after which a product is paused */
+export const PAUSE_AFTER_FAILURES = 6;
+
+/** Whether scheduled checks stop after this many failed checks in a row */
+export function shouldPause(consecutiveFailures: number): boolean {
+  return consecutiveFailures >= PAUSE_AFTER_FAILURES;
+}
+
+/** Base check interval for a tier */
+export function baseIntervalMinutes(tier: UserTier): number {
+  return BASE_INTERVAL_MINUTES[tier];
+}
+
+/**
+ * Wait after the `consecutiveFailures`-th failed check in a row: the base
+ * interval, doubled for every earlier failure, capped at a day.
+ */
+export function failureBackoffMinutes(tier: UserTier, consecutiveFailures: number): number {
+  const minutes = BASE_INTERVAL_MINUTES[tier] * 2 ** Math.max(0, consecutiveFailures - 1);
+  return Math.min(MAX_INTERVAL_MINUTES, minutes);
+}
+
+/** Price at which a rule fires, for rules that have one */
+function triggerPrice(rule: AlertRule): number | null {
+  switch (rule.rule_type) {
+    case 'target_price':
+      return rule.target_price === null ? null : Number(rule.target_price);
+    case 'percent_drop':
+      return rule.threshold === null || rule.baseline_price === null
+        ? null
+        : Number(rule.baseline_price) * (1 - Number(rule.threshold) / 100);
+    case 'price_above':
+      return rule.threshold === null ? null : Number(rule.threshold);
+    default:
+      return null;
+  }
+}
+
+function volatilityFactor(recentChanges: number): number {
+  if (recentChanges >= 5) return 0.5;
+  if (recentChanges >= 1) return 0.75;
+  return 2;
+}
+
+// The closer the price is to firing an alert, the sooner the next look
+function proximityFactor(price: number | null, alerts: AlertRule[]): number {
+  if (price === null) return 1;
+
+  let closest = Infinity;
+  for (const alert of alerts) {
+    const trigger = triggerPrice(alert);
+    if (trigger !== null) {
+      closest = Math.min(closest, Math.abs(price - trigger) / price);
+    }
+  }
+
+  if (closest <= 0.02) return 0.25;
+  if (closest <= 0.05) return 0.5;
+  if (closest <= 0.1) return 0.75;
+  return 1;
+}
+
+/**
+ * Minutes until a product should be checked again. Starts from the owner's
+ * tier and shortens for volatile listings and prices close to an alert;
+ * stable and out-of-stock listings are checked less often.
+ */
+export function nextCheckIntervalMinutes(inputs: ScheduleInputs): number {
+  const minutes = BASE_INTERVAL_MINUTES[inputs.tier]
+    * volatilityFactor(inputs.recentChanges)
+    * proximityFactor(inputs.price, inputs.alerts)
+    * (inputs.isOutOfStock ? 2 : 1);
+
+  return Math.round(Math.min(MAX_INTERVAL_MINUTES, Math.max(MIN_INTERVAL_MINUTES, minutes)));
+}
+
+export function addMinutes(timestamp: string, minutes: number): string {
+  return new Date(new Date(timestamp).getTime() + minutes * MINUTE_MS).toISOString();
+}
@@ -0,0 +1,104 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { PricePointSource } from './price-checks.ts';
+import type { ScrapeResult } from './scraper.ts';
+
+export type ScrapeRunTrigger = Exclude<PricePointSource, 'initial'>;
+
+export interface ScrapeRunSummary {
+  listingsAttempted: number;
+  productsAttempted: number;
+  productsSucceeded: number;
+  productsFailed: number;
+  failuresByReason: Record<string, number>;
+  remaining: number;
+  error?: string;
+}
+
+export interface ScrapeAttempt {
+  listingId: string;
+  url: string;
+  productsCount: number;
+  result: ScrapeResult;
+  durationMs: number;
+  attemptedAt: string;
+}
+
+// The run log is diagnostics only: failing to write it is logged and never
+// fails the update itself.
+
+/** Opens a run and returns its id, or null if it could not be recorded */
+export async function startScrapeRun(
+  supabase: SupabaseClient,
+  trigger: ScrapeRunTrigger,
+  startedAt: string,
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('scrape_runs')
+    .insert({ trigger, started_at: startedAt })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error starting scrape run:', error);
+    return null;
+  }
+  return data.id;
+}
+
+export async function finishScrapeRun(
+  supabase: SupabaseClient,
+  runId: string | null,
+  startedAt: string,
+  summary: ScrapeRunSummary,
+) {
+  if (!runId) return;
+
+  const finishedAt = new Date();
+  const { error } = await supabase
+    .from('scrape_runs')
+    .update({
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - new Date(startedAt).getTime(),
+      listings_attempted: summary.listingsAttempted,
+      products_attempted: summary.productsAttempted,
+      products_succeeded: summary.productsSucceeded,
+      products_failed: summary.productsFailed,
+      failures_by_reason: summary.failuresByReason,
+      remaining: summary.remaining,
+      error: summary.error ?? null,
+    })
+    .eq('id', runId);
+
+  if (error) {
+    console.error('Error finishing scrape run:', error);
+  }
+}
+
+/** Records one scrape of a listing, with the strategy behind each field */
+export async function recordScrapeAttempt(
+  supabase: SupabaseClient,
+  runId: string | null,
+  attempt: ScrapeAttempt,
+) {
+  if (!runId) return;
+
+  const { result } = attempt;
+  const { error } = await supabase
+    .from('scrape_attempts')
+    .insert({
+      run_id: runId,
+      listing_id: attempt.listingId,
+      url: attempt.url,
+      products_count: attempt.productsCount,
+      status: result.status,
+      failure_reason: result.status === 'failed' ? result.reason : null,
+      sources: result.status === 'failed' ? {} : result.sources,
+      missing: result.status === 'partial' ? result.missing : [],
+      duration_ms: attempt.durationMs,
+      attempted_at: attempt.attemptedAt,
+    });
+
+  if (error) {
+    console.error('Error recording scrape attempt:', error);
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { rebaseUrl, selectVariant, variantKey, type ScrapeResult } from './scraper.ts';
+
+describe('rebaseUrl', () => {
+  const url = 'https://www.cashify.in/buy-refurbished-mobile-phones/apple-iphone-12-refurbished-mock0001?ref=home';
+
+  it('leaves the URL alone without a base', () => {
+    expect(rebaseUrl(url)).toBe(url);
+  });
+
+  it('keeps the path and query under the base URL', () => {
+    expect(rebaseUrl(url, 'http://localhost:8787')).toBe(
+      'http://localhost:8787/buy-refurbished-mobile-phones/apple-iphone-12-refurbished-mock0001?ref=home'
+    );
+    expect(rebaseUrl(url, 'http://localhost:8787/cashify/')).toBe(
+      'http://localhost:8787/cashify/buy-refurbished-mobile-phones/apple-iphone-12-refurbished-mock0001?ref=home'
+    );
+  });
+});
+
+describe('variantKey', () => {
+  it('ignores case, spacing and punctuation', () => {
+    expect(variantKey({ condition: 'Fair', storage: '6 GB / 128 GB', color: 'Pacific Blue' }))
+      .toBe('fair|6gb-128gb|pacific-blue');
+    expect(variantKey({ condition: 'fair ', storage: '6GB/128GB', color: 'pacific  blue' }))
+      .toBe('fair|6gb-128gb|pacific-blue');
+  });
+
+  it('keeps empty attributes in place', () => {
+    expect(variantKey({ condition: 'Good', storage: '128 GB', color: '' })).toBe('good|128gb|');
+  });
+});
+
+describe('selectVariant', () => {
+  const page: ScrapeResult = {
+    status: 'success',
+    data: {
+      title: 'Samsung Galaxy S21 FE 5G - Refurbished',
+      mrp: 54999,
+      sale_price: 20699,
+      discount: '62%',
+      condition: 'Good',
+      storage: '8 GB / 128 GB',
+      ram: '8 GB',
+      color: 'Olive',
+      is_out_of_stock: false,
+      variants: [
+        {
+          key: 'fair|8gb-128gb|olive',
+          label: 'Fair, 8 GB / 128 GB, Olive',
+          mrp: 54999,
+          sale_price: 18999,
+          discount: '65%',
+          condition: 'Fair',
+          storage: '8 GB / 128 GB',
+          ram: '8 GB',
+          color: 'Olive',
+          is_out_of_stock: false,
+        },
+        {
+          key: 'superb|8gb-256gb|graphite',
+          label: 'Superb, 8 GB / 256 GB, Graphite',
+          mrp: 58999,
+          sale_price: null,
+          discount: '0%',
+          condition: 'Superb',
+          storage: '8 GB / 256 GB',
+          ram: '8 GB',
+          color: 'Graphite',
+          is_out_of_stock: false,
+        },
+      ],
+    },
+    sources: { title: 'next-data', sale_price: 'html', variants: 'next-data' },
+  };
+
+  it('returns the page as is for an empty key', () => {
+    expect(selectVariant(page, '')).toBe(page);
+  });
+
+  it('takes price, stock and attributes from the variant', () => {
+    expect(selectVariant(page, 'fair|8gb-128gb|olive')).toMatchObject({
+      status: 'success',
+      data: { title: 'Samsung Galaxy S21 FE 5G - Refurbished', sale_price: 18999, discount: '65%', condition: 'Fair' },
+      sources: { title: 'next-data', sale_price: 'next-data', condition: 'next-data' },
+    });
+  });
+
+  it('fails when the variant is gone or has no price', () => {
+    expect(selectVariant(page, 'good|8gb-128gb|black')).toMatchObject({ status: 'failed', reason: 'VARIANT_NOT_FOUND' });
+    expect(selectVariant(page, 'superb|8gb-256gb|graphite')).toMatchObject({ status: 'failed', reason: 'PRICE_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,217 @@
+import type { RetailerAdapter } from './retailers/index.ts';
+
+export interface ScrapedData {
+  title: string;
+  mrp: number | null;
+  sale_price: number | null;
+  discount: string;
+  condition: string;
+  storage: string;
+  ram?: string;
+  color?: string;
+  image_url?: string;
+  is_out_of_stock: boolean;
+  /**
+   * Every variant the page offers, when it offers more than one. The fields
+   * above describe the variant the page shows by default.
+   */
+  variants?: ScrapedVariant[];
+}
+
+const VARIANT_FIELDS = [
+  'mrp', 'sale_price', 'discount', 'condition', 'storage', 'ram', 'color', 'is_out_of_stock',
+] as const;
+
+/** One condition, capacity and colour combination of a listing */
+export interface ScrapedVariant extends Pick<ScrapedData, typeof VARIANT_FIELDS[number]> {
+  /** Identifies the variant across checks, see `variantKey` */
+  key: string;
+  /** e.g. "Fair, 4 GB / 64 GB, Blue" */
+  label: string;
+}
+
+export type ExtractionStrategy = 'json-ld' | 'next-data' | 'html';
+
+export type FieldSources = Partial<Record<keyof ScrapedData, ExtractionStrategy>>;
+
+export type ScrapeFailureReason =
+  | 'NETWORK_ERROR'
+  | 'HTTP_ERROR'
+  | 'NOT_FOUND'
+  | 'BLOCKED'
+  | 'PRICE_NOT_FOUND'
+  | 'VARIANT_NOT_FOUND';
+
+/**
+ * Outcome of a scrape. `partial` means the page was readable but some fields
+ * (listed in `missing`) could not be extracted; those fields are left empty
+ * rather than guessed, so callers must keep whatever value they already have.
+ * `sources` records which extraction strategy produced each field.
+ */
+export type ScrapeResult =
+  | { status: 'success'; data: ScrapedData; sources: FieldSources }
+  | { status: 'partial'; data: ScrapedData; sources: FieldSources; missing: (keyof ScrapedData)[] }
+  | { status: 'failed'; reason: ScrapeFailureReason; message: string };
+
+type FetchResult =
+  | { ok: true; html: string }
+  | { ok: false; reason: ScrapeFailureReason; message: string };
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+  'Accept-Encoding': 'gzip, deflate, br',
+  'DNT': '1',
+  'Connection': 'keep-alive',
+  'Upgrade-Insecure-Requests': '1',
+};
+
+// Bot-protection interstitials are served with a 200 often enough that the
+// status code alone cannot be trusted.
+const BLOCKED_PAGE_PATTERNS = [
+  /<title[^>]*>\s*(Attention Required|Just a moment|Access Denied)/i,
+  /cf-chl-|challenge-platform/i,
+];
+
+/** A user-facing explanation of a failed scrape */
+export function scrapeFailureMessage(reason: ScrapeFailureReason, retailer: RetailerAdapter): string {
+  switch (reason) {
+    case 'NETWORK_ERROR':
+      return `Could not reach ${retailer.name}. Please try again later.`;
+    case 'HTTP_ERROR':
+      return `${retailer.name} returned an unexpected error for this page.`;
+    case 'NOT_FOUND':
+      return `This ${retailer.name} listing no longer exists.`;
+    case 'BLOCKED':
+      return `${retailer.name} is temporarily blocking our requests. Please try again later.`;
+    case 'PRICE_NOT_FOUND':
+      return `Could not find a price on this page. Make sure it is a ${retailer.name} product page.`;
+    case 'VARIANT_NOT_FOUND':
+      return `This variant is no longer offered on the ${retailer.name} listing.`;
+  }
+}
+
+type VariantAttributes = Pick<ScrapedVariant, 'condition' | 'storage' | 'color'>;
+
+/**
+ * Identity of a variant, built from what the shopper picks rather than the
+ * retailer's SKU, which changes when a listing is restocked. `storage` is
+ * the combined "RAM / storage" value, e.g. `fair|4gb-64gb|blue`.
+ */
+export function variantKey({ condition, storage, color }: VariantAttributes): string {
+  return [condition, storage, color ?? '']
+    .map(part => part.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').replace(/(\d)-([gt]b)\b/g, '$1$2'))
+    .join('|');
+}
+
+export function variantLabel({ condition, storage, color }: VariantAttributes): string {
+  return [condition, storage, color].filter(Boolean).join(', ');
+}
+
+/**
+ * Narrows a scrape of a page to one of its variants. An empty key tracks
+ * whatever the page shows by default. A variant that has disappeared fails
+ * the check, so the product keeps its last known price instead of silently
+ * switching to another variant.
+ */
+export function selectVariant(result: ScrapeResult, key: string): ScrapeResult {
+  if (!key || result.status === 'failed') return result;
+
+  const variant = result.data.variants?.find(candidate => candidate.key === key);
+  if (!variant) {
+    return { status: 'failed', reason: 'VARIANT_NOT_FOUND', message: `No variant "${key}" on the page` };
+  }
+
+  if (!variant.is_out_of_stock && variant.sale_price === null) {
+    return { status: 'failed', reason: 'PRICE_NOT_FOUND', message: `No price for variant "${key}"` };
+  }
+
+  const data: ScrapedData = {
+    ...result.data,
+    mrp: variant.mrp,
+    sale_price: variant.sale_price,
+    discount: variant.discount,
+    condition: variant.condition,
+    storage: variant.storage,
+    ram: variant.ram,
+    color: variant.color,
+    is_out_of_stock: variant.is_out_of_stock,
+  };
+
+  const sources: FieldSources = { ...result.sources };
+  if (result.sources.variants) {
+    for (const field of VARIANT_FIELDS) sources[field] = result.sources.variants;
+  }
+
+  const missing = (['title', 'mrp', 'sale_price', 'condition', 'storage'] as const)
+    .filter(field => !data[field]);
+
+  return missing.length > 0
+    ? { status: 'partial', data, sources, missing }
+    : { status: 'success', data, sources };
+}
+
+export interface ScrapeOptions {
+  /**
+   * Origin (and optional path prefix) to fetch from instead of the URL's own,
+   * e.g. a local mock of the retailer. The original URL is still used for
+   * everything else, such as resolving relative image paths.
+   */
+  baseUrl?: string;
+}
+
+/** Moves `url`'s path and query onto `baseUrl`, or returns it unchanged */
+export function rebaseUrl(url: string, baseUrl?: string): string {
+  if (!baseUrl) return url;
+
+  const target = new URL(url);
+  const base = new URL(baseUrl);
+  base.pathname = `${base.pathname.replace(/\/+$/, '')}${target.pathname}`;
+  base.search = target.search;
+  return base.href;
+}
+
+export async function fetchProductHtml(url: string, { baseUrl }: ScrapeOptions = {}): Promise<FetchResult> {
+  let response: Response;
+  try {
+    response = await fetch(rebaseUrl(url, baseUrl), { headers: REQUEST_HEADERS });
+  } catch (error) {
+    return { ok: false, reason: 'NETWORK_ERROR', message: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (response.status === 404 || response.status === 410) {
+    return { ok: false, reason: 'NOT_FOUND', message: `HTTP ${response.status}` };
+  }
+
+  if (response.status === 403 || response.status === 429) {
+    return { ok: false, reason: 'BLOCKED', message: `HTTP ${response.status}` };
+  }
+
+  if (!response.ok) {
+    return { ok: false, reason: 'HTTP_ERROR', message: `HTTP ${response.status}` };
+  }
+
+  const html = await response.text();
+
+  if (BLOCKED_PAGE_PATTERNS.some(pattern => pattern.test(html))) {
+    return { ok: false, reason: 'BLOCKED', message: 'Received a bot-protection page' };
+  }
+
+  return { ok: true, html };
+}
+
+/** Fetches a product page and parses it with its retailer's adapter */
+export async function scrapeProduct(
+  retailer: RetailerAdapter,
+  url: string,
+  options: ScrapeOptions = {},
+): Promise<ScrapeResult> {
+  const fetched = await fetchProductHtml(url, options);
+  if (!fetched.ok) {
+    console.error(`Scraping failed for ${url}: ${fetched.reason} (${fetched.message})`);
+    return { status: 'failed', reason: fetched.reason, message: fetched.message };
+  }
+
+  return retailer.parse(fetched.html, url);
+}
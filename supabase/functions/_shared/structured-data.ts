@@ -0,0 +1,293 @@
+/**
+ * Retailer-agnostic readers for machine-readable product data embedded in a
+ * page: schema.org JSON-LD and Next.js `__NEXT_DATA__`. These survive visual
+ * redesigns far better than class-name regexes, so the scraper tries them
+ * first. Every field is optional; callers fall back per field.
+ */
+export interface ExtractedFields {
+  title?: string;
+  mrp?: number;
+  sale_price?: number;
+  discount?: string;
+  is_out_of_stock?: boolean;
+  image_url?: string;
+  condition?: string;
+  ram?: string;
+  storage?: string;
+  color?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const MAX_WALK_DEPTH = 12;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+export function parsePrice(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value > 0 ? value : undefined;
+  }
+  if (typeof value === 'string') {
+    const price = parseFloat(value.replace(/[₹,\s]/g, ''));
+    return price > 0 ? price : undefined;
+  }
+  return undefined;
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+// Capacities are sometimes stored as bare numbers of gigabytes
+function asCapacity(value: unknown): string | undefined {
+  if (typeof value === 'number' && value > 0) return `${value} GB`;
+  return asText(value);
+}
+
+function asImageUrl(value: unknown): string | undefined {
+  for (const item of asArray(value)) {
+    if (typeof item === 'string' && item) return item;
+    if (isObject(item)) {
+      const url = asText(item.url) ?? asText(item.contentUrl) ?? asText(item.src);
+      if (url) return url;
+    }
+  }
+  return undefined;
+}
+
+function parseAvailability(value: unknown): boolean | undefined {
+  const text = asText(value);
+  if (!text) return undefined;
+  if (/OutOfStock|SoldOut|Discontinued/i.test(text)) return true;
+  if (/InStock|LimitedAvailability|OnlineOnly/i.test(text)) return false;
+  return undefined;
+}
+
+function readScriptContents(html: string, pattern: RegExp): unknown[] {
+  const results: unknown[] = [];
+  for (const match of html.matchAll(pattern)) {
+    try {
+      results.push(JSON.parse(match[1].trim()));
+    } catch {
+      // Malformed blocks are common enough to ignore silently
+    }
+  }
+  return results;
+}
+
+function hasType(node: JsonObject, type: string): boolean {
+  return asArray(node['@type']).some(t => t === type);
+}
+
+function collectJsonLdNodes(value: unknown, nodes: JsonObject[] = []): JsonObject[] {
+  for (const item of asArray(value)) {
+    if (!isObject(item)) continue;
+    nodes.push(item);
+    if (item['@graph']) collectJsonLdNodes(item['@graph'], nodes);
+  }
+  return nodes;
+}
+
+function readAdditionalProperties(node: JsonObject, fields: ExtractedFields) {
+  for (const property of asArray(node.additionalProperty)) {
+    if (!isObject(property)) continue;
+    const name = asText(property.name)?.toLowerCase() ?? '';
+    const value = asText(property.value);
+    if (!value) continue;
+
+    if (/condition|grade/.test(name)) fields.condition ??= value;
+    else if (/\bram\b|memory/.test(name)) fields.ram ??= value;
+    else if (/storage|\brom\b|capacity/.test(name)) fields.storage ??= value;
+    else if (/colou?r/.test(name)) fields.color ??= value;
+  }
+}
+
+// AggregateOffer wraps the individual offers; a plain Offer is used directly
+function readOffer(offers: unknown, fields: ExtractedFields) {
+  const offer = asArray(offers)
+    .flatMap(offer =>
+      isObject(offer) && hasType(offer, 'AggregateOffer') && offer.offers ? asArray(offer.offers) : [offer]
+    )
+    .find(isObject);
+  if (!offer) return;
+
+  fields.sale_price = parsePrice(offer.price) ?? parsePrice(offer.lowPrice);
+  fields.is_out_of_stock = parseAvailability(offer.availability);
+
+  for (const spec of asArray(offer.priceSpecification)) {
+    if (isObject(spec) && /ListPrice|StrikethroughPrice/i.test(asText(spec.priceType) ?? '')) {
+      fields.mrp = parsePrice(spec.price);
+    }
+  }
+}
+
+function readJsonLdNodes(html: string): JsonObject[] {
+  return collectJsonLdNodes(readScriptContents(
+    html,
+    /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+  ));
+}
+
+export function extractJsonLdProduct(html: string): ExtractedFields | null {
+  // Pages offering several variants describe them as a ProductGroup
+  const nodes = readJsonLdNodes(html);
+  const product = nodes.find(node => hasType(node, 'Product')) ?? nodes.find(node => hasType(node, 'ProductGroup'));
+  if (!product) return null;
+
+  const fields: ExtractedFields = {
+    title: asText(product.name),
+    image_url: asImageUrl(product.image),
+    color: asText(product.color),
+  };
+
+  readOffer(product.offers, fields);
+  readAdditionalProperties(product, fields);
+  return fields;
+}
+
+/** The `hasVariant` products of a schema.org ProductGroup, if the page has one */
+export function extractJsonLdVariants(html: string): ExtractedFields[] {
+  const group = readJsonLdNodes(html).find(node => hasType(node, 'ProductGroup'));
+  if (!group) return [];
+
+  return asArray(group.hasVariant).filter(isObject).map(variant => {
+    const fields: ExtractedFields = { color: asText(variant.color) };
+    readOffer(variant.offers, fields);
+    readAdditionalProperties(variant, fields);
+    return fields;
+  });
+}
+
+const NAME_KEYS = ['productName', 'modelName', 'name', 'title'];
+const SALE_PRICE_KEYS = ['salePrice', 'sellingPrice', 'sale_price', 'discountedPrice', 'finalPrice', 'price'];
+const MRP_KEYS = ['mrp', 'listPrice', 'originalPrice', 'maxRetailPrice', 'strikePrice', 'marketPrice'];
+const IMAGE_KEYS = ['imageUrl', 'image', 'images', 'thumbnail'];
+const CONDITION_KEYS = ['condition', 'conditionName', 'grade'];
+const RAM_KEYS = ['ram', 'ramSize'];
+const STORAGE_KEYS = ['storage', 'storageSize', 'internalStorage', 'rom'];
+const COLOR_KEYS = ['color', 'colour', 'colorName'];
+
+function firstValue<T>(node: JsonObject, keys: string[], read: (value: unknown) => T | undefined): T | undefined {
+  for (const key of keys) {
+    const value = read(node[key]);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function readStockFlag(node: JsonObject): boolean | undefined {
+  for (const key of ['isOutOfStock', 'outOfStock', 'soldOut']) {
+    if (typeof node[key] === 'boolean') return node[key] as boolean;
+  }
+  for (const key of ['inStock', 'isInStock', 'isAvailable']) {
+    if (typeof node[key] === 'boolean') return !node[key];
+  }
+  if (typeof node.availability === 'string') return parseAvailability(node.availability);
+  return undefined;
+}
+
+// The page props shape is not documented and changes between deploys, so look
+// for the first object that carries both a product name and a sale price.
+function findProductLike(value: unknown, depth = 0): JsonObject | null {
+  if (depth > MAX_WALK_DEPTH) return null;
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findProductLike(item, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  if (!isObject(value)) return null;
+
+  if (firstValue(value, NAME_KEYS, asText) && firstValue(value, SALE_PRICE_KEYS, parsePrice)) {
+    return value;
+  }
+
+  for (const child of Object.values(value)) {
+    const found = findProductLike(child, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+function readNextData(html: string): unknown {
+  const [pageData] = readScriptContents(
+    html,
+    /<script[^>]*id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/gi
+  );
+  return pageData;
+}
+
+export function extractNextDataProduct(html: string): ExtractedFields | null {
+  const product = findProductLike(readNextData(html));
+  if (!product) return null;
+
+  return {
+    title: firstValue(product, NAME_KEYS, asText),
+    sale_price: firstValue(product, SALE_PRICE_KEYS, parsePrice),
+    mrp: firstValue(product, MRP_KEYS, parsePrice),
+    is_out_of_stock: readStockFlag(product),
+    image_url: firstValue(product, IMAGE_KEYS, asImageUrl),
+    condition: firstValue(product, CONDITION_KEYS, asText),
+    ram: firstValue(product, RAM_KEYS, asCapacity),
+    storage: firstValue(product, STORAGE_KEYS, asCapacity),
+    color: firstValue(product, COLOR_KEYS, asText),
+  };
+}
+
+const VARIANT_LIST_KEYS = ['variants', 'variantList', 'productVariants', 'skus'];
+
+// Like the product itself, the variant list has no fixed location: take the
+// first list under a variant-ish key whose entries carry a price or a stock flag
+function findVariantList(value: unknown, depth = 0): JsonObject[] {
+  if (depth > MAX_WALK_DEPTH) return [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findVariantList(item, depth + 1);
+      if (found.length > 0) return found;
+    }
+    return [];
+  }
+
+  if (!isObject(value)) return [];
+
+  for (const key of VARIANT_LIST_KEYS) {
+    const list = value[key];
+    if (!Array.isArray(list)) continue;
+    const variants = list.filter(isObject);
+    const priced = variants.some(variant =>
+      firstValue(variant, SALE_PRICE_KEYS, parsePrice) !== undefined || readStockFlag(variant) !== undefined
+    );
+    if (priced) return variants;
+  }
+
+  for (const child of Object.values(value)) {
+    const found = findVariantList(child, depth + 1);
+    if (found.length > 0) return found;
+  }
+  return [];
+}
+
+export function extractNextDataVariants(html: string): ExtractedFields[] {
+  return findVariantList(readNextData(html)).map(variant => ({
+    sale_price: firstValue(variant, SALE_PRICE_KEYS, parsePrice),
+    mrp: firstValue(variant, MRP_KEYS, parsePrice),
+    is_out_of_stock: readStockFlag(variant),
+    condition: firstValue(variant, CONDITION_KEYS, asText),
+    ram: firstValue(variant, RAM_KEYS, asCapacity),
+    storage: firstValue(variant, STORAGE_KEYS, asCapacity),
+    color: firstValue(variant, COLOR_KEYS, asText),
+  }));
+}
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runPool } from './worker-pool.ts';
+
+const ITEM_MS = 100;
+
+// A worker that takes ITEM_MS per item and records what ran and how much at once
+function timedWorker() {
+  const started: number[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const worker = async (item: number) => {
+    started.push(item);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, ITEM_MS));
+    inFlight--;
+  };
+
+  return { worker, started, maxInFlight: () => maxInFlight };
+}
+
+describe('runPool', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs every item with at most `concurrency` in flight', async () => {
+    const { worker, started, maxInFlight } = timedWorker();
+
+    const run = runPool([1, 2, 3, 4, 5], { concurrency: 2 }, worker);
+    await vi.advanceTimersByTimeAsync(3 * ITEM_MS);
+
+    await expect(run).resolves.toBe(5);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(maxInFlight()).toBe(2);
+  });
+
+  it('starts no more workers than there are items', async () => {
+    const { worker, maxInFlight } = timedWorker();
+
+    const run = runPool([1, 2], { concurrency: 8 }, worker);
+    await vi.advanceTimersByTimeAsync(ITEM_MS);
+
+    await expect(run).resolves.toBe(2);
+    expect(maxInFlight()).toBe(2);
+  });
+
+  it('finishes current items but starts none after the deadline', async () => {
+    const { worker, started } = timedWorker();
+
+    // Items start at 0 ms and 100 ms; the one due at 200 ms is past the deadline
+    const run = runPool([1, 2, 3, 4], { concurrency: 1, deadline: Date.now() + 150 }, worker);
+    await vi.advanceTimersByTimeAsync(4 * ITEM_MS);
+
+    await expect(run).resolves.toBe(2);
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('starts nothing once the deadline has passed', async () => {
+    const { worker, started } = timedWorker();
+
+    await expect(runPool([1, 2], { concurrency: 2, deadline: Date.now() }, worker)).resolves.toBe(0);
+    expect(started).toEqual([]);
+  });
+
+  it('returns at once without items', async () => {
+    const { worker } = timedWorker();
+
+    await expect(runPool([], { concurrency: 4 }, worker)).resolves.toBe(0);
+  });
+});
@@ -0,0 +1,29 @@
+export interface PoolOptions {
+  concurrency: number;
+  /** No new items are started after this time (epoch ms) */
+  deadline?: number;
+}
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` in flight. Once the
+ * deadline passes, workers finish their current item and stop picking up new
+ * ones. Returns how many items were started; the rest were left untouched.
+ * `worker` must handle its own errors.
+ */
+export async function runPool<T>(
+  items: T[],
+  { concurrency, deadline }: PoolOptions,
+  worker: (item: T) => Promise<void>,
+): Promise<number> {
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length && (deadline === undefined || Date.now() < deadline)) {
+      await worker(items[next++]);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return next;
+}
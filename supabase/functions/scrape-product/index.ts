@@ -1,22 +1,39 @@
 import { corsHeaders } from '../_shared/cors.ts';
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  scrapeFailureMessage,
+  scrapeProduct,
+  selectVariant,
+  type ScrapeFailureReason,
+  type ScrapeResult,
+} from '../_shared/scraper.ts';
+import { recordPriceCheck } from '../_shared/price-checks.ts';
+import { findOrCreateListing } from '../_shared/listings.ts';
+import { baseUrlEnvName, parseProductUrl, supportedRetailerNames } from '../_shared/retailers/index.ts';
+import { addMinutes, baseIntervalMinutes } from '../_shared/scheduling.ts';
+import { formatRetryAfter, resolveQuotas } from '../_shared/quotas.ts';
+import { consumeQuota, quotaExceededResponse, refundQuota } from '../_shared/quota-usage.ts';
+import { enqueueNotification } from '../_shared/outbox.ts';
+import { trackingConfirmationEmail } from '../_shared/email-templates.ts';
 
 interface RequestBody {
   url: string;
+  /**
+   * Variants to track, from the `variants` of an earlier response. Without
+   * it, a page offering several variants is not tracked; the response lists
+   * them for the user to choose from instead.
+   */
+  variantKeys?: string[];
 }
 
-interface ScrapedData {
-  title: string;
-  mrp: number;
-  sale_price: number;
-  discount: string;
-  condition: string;
-  storage: string;
-  ram?: string;
-  color?: string;
-  image_url?: string;
-  is_out_of_stock?: boolean;
-}
+const FAILURE_STATUS: Record<ScrapeFailureReason, number> = {
+  NETWORK_ERROR: 502,
+  HTTP_ERROR: 502,
+  NOT_FOUND: 404,
+  BLOCKED: 503,
+  PRICE_NOT_FOUND: 422,
+  VARIANT_NOT_FOUND: 422,
+};
 
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
@@ -28,7 +45,7 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { url }: RequestBody = await req.json();
+    const { url, variantKeys }: RequestBody = await req.json();
 
     if (!url) {
       return new Response(
@@ -40,10 +57,21 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Validate Cashify URL
-    if (!url.includes('cashify.in')) {
+    if (variantKeys !== undefined && (!Array.isArray(variantKeys) || variantKeys.some(key => typeof key !== 'string'))) {
+      return new Response(
+        JSON.stringify({ error: 'variantKeys must be a list of variant keys' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Validate the URL against the supported retailers
+    const productUrl = parseProductUrl(url);
+    if (!productUrl) {
       return new Response(
-        JSON.stringify({ error: 'Only Cashify URLs are supported' }),
+        JSON.stringify({ error: `Only ${supportedRetailerNames()} product URLs are supported` }),
         {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -82,15 +110,18 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Check if product already exists for this user
-    const { data: existingProduct } = await supabase
+    // Check which variants of this page the user already tracks. Links
+    // differing only in tracking params, host alias or trailing slash are the
+    // same page.
+    const { retailer, canonicalUrl } = productUrl;
+    const { data: trackedRows } = await supabase
       .from('products')
-      .select('id')
+      .select('variant_key')
       .eq('user_id', user.id)
-      .eq('url', url)
-      .single();
+      .eq('canonical_url', canonicalUrl);
+    const trackedKeys = new Set<string>((trackedRows || []).map(row => row.variant_key));
 
-    if (existingProduct) {
+    if (variantKeys?.length && variantKeys.every(key => trackedKeys.has(key))) {
       return new Response(
         JSON.stringify({ error: 'Product is already being tracked' }),
         {
@@ -100,560 +131,244 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Scrape the product data
-    const scrapedData = await scrapeProduct(url);
+    // Quotas are checked before scraping, so users over them never reach the
+    // retailer. Users without a profile row are on the free tier.
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('tier, max_products, refreshes_per_hour, adds_per_day')
+      .eq('id', user.id)
+      .maybeSingle();
+    const quotas = resolveQuotas(profile);
 
-    // Store in database
-    const { data: product, error: dbError } = await supabase
+    const { count: productCount } = await supabase
       .from('products')
-      .insert({
-        user_id: user.id,
-        url,
-        title: scrapedData.title,
-        mrp: scrapedData.mrp,
-        sale_price: scrapedData.sale_price,
-        discount: scrapedData.discount,
-        condition: scrapedData.condition,
-        storage: scrapedData.storage,
-        ram: scrapedData.ram || '',
-        color: scrapedData.color || '',
-        image_url: scrapedData.image_url,
-        is_out_of_stock: scrapedData.is_out_of_stock || false,
-        price_history: [{ price: scrapedData.sale_price, checked_at: new Date().toISOString() }],
-        last_checked: new Date().toISOString(),
-      })
-      .select()
-      .single();
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id);
+    const trackedCount = productCount ?? 0;
 
-    if (dbError) {
-      console.error('Database error:', dbError);
+    if (trackedCount >= quotas.maxProducts) {
       return new Response(
-        JSON.stringify({ error: 'Failed to save product data' }),
+        JSON.stringify({
+          error: `You are tracking the maximum of ${quotas.maxProducts} products. Remove one to add another.`,
+          code: 'PRODUCT_LIMIT_REACHED',
+        }),
         {
-          status: 500,
+          status: 403,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         }
       );
     }
 
-    // Send tracking confirmation email using Resend
-    try {
-      await sendTrackingConfirmationEmail(user.email!, product, scrapedData);
-      console.log(`✅ Tracking confirmation email sent to ${user.email}`);
-    } catch (emailError) {
-      console.error('Error sending confirmation email:', emailError);
-      // Don't fail the request if email fails, just log it
-    }
-
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        product,
-        message: 'Product tracking started successfully! Check your email for confirmation.'
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-
-  } catch (error) {
-    console.error('Error:', error);
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  }
-});
-
-async function sendTrackingConfirmationEmail(userEmail: string, product: any, scrapedData: ScrapedData) {
-  const savings = scrapedData.mrp - scrapedData.sale_price;
-  const stockStatus = scrapedData.is_out_of_stock ? 'Out of Stock' : 'In Stock';
-  
-  // Get Resend API key from environment
-  const resendApiKey = Deno.env.get('RESEND_API_KEY');
-  
-  if (!resendApiKey) {
-    console.error('❌ RESEND_API_KEY not found in environment variables');
-    console.log('📧 EMAIL SIMULATION - Tracking confirmation for:', userEmail);
-    console.log('📦 Product:', scrapedData.title);
-    console.log('💰 Price:', scrapedData.is_out_of_stock ? 'N/A' : `₹${scrapedData.sale_price.toLocaleString()}`);
-    console.log('📊 Stock:', stockStatus);
-    return;
-  }
-
-  const emailContent = {
-    from: 'PriceTracker <noreply@resend.dev>', // Using resend.dev domain for testing
-    to: [userEmail],
-    subject: `✅ Now Tracking: ${scrapedData.title}`,
-    html: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #f8fafc; padding: 20px;">
-        <div style="background-color: white; border-radius: 12px; padding: 30px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
-          <!-- Header -->
-          <div style="text-align: center; margin-bottom: 30px;">
-            <h1 style="color: #2563eb; margin: 0; font-size: 28px; font-weight: bold;">🎯 PriceTracker</h1>
-            <p style="color: #64748b; margin: 10px 0 0 0; font-size: 16px;">Your Smart Price Monitoring Companion</p>
-          </div>
-
-          <!-- Success Message -->
-          <div style="background: linear-gradient(135deg, #10b981, #059669); color: white; padding: 20px; border-radius: 8px; text-align: center; margin-bottom: 30px;">
-            <h2 style="margin: 0 0 10px 0; font-size: 24px;">✅ Tracking Started Successfully!</h2>
-            <p style="margin: 0; font-size: 16px; opacity: 0.9;">We're now monitoring this product for price changes and stock availability</p>
-          </div>
-
-          <!-- Product Details -->
-          <div style="background-color: #f1f5f9; padding: 25px; border-radius: 8px; margin-bottom: 25px;">
-            <h3 style="color: #1e293b; margin: 0 0 15px 0; font-size: 20px; font-weight: 600;">${scrapedData.title}</h3>
-            
-            <div style="display: grid; gap: 12px;">
-              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
-                <span style="color: #64748b; font-weight: 500;">Stock Status:</span>
-                <span style="color: ${scrapedData.is_out_of_stock ? '#dc2626' : '#059669'}; font-weight: bold;">${stockStatus}</span>
-              </div>
-              
-              ${!scrapedData.is_out_of_stock ? `
-              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
-                <span style="color: #64748b; font-weight: 500;">Current Price:</span>
-                <span style="color: #059669; font-size: 20px; font-weight: bold;">₹${scrapedData.sale_price.toLocaleString()}</span>
-              </div>
-              
-              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
-                <span style="color: #64748b; font-weight: 500;">Original Price:</span>
-                <span style="color: #64748b; text-decoration: line-through;">₹${scrapedData.mrp.toLocaleString()}</span>
-              </div>
-              
-              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
-                <span style="color: #64748b; font-weight: 500;">Discount:</span>
-                <span style="color: #dc2626; font-weight: bold;">${scrapedData.discount}</span>
-              </div>
-              ` : ''}
-              
-              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
-                <span style="color: #64748b; font-weight: 500;">Condition:</span>
-                <span style="color: #1e293b; font-weight: 500;">${scrapedData.condition}</span>
-              </div>
-              
-              ${scrapedData.storage ? `
-              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
-                <span style="color: #64748b; font-weight: 500;">Storage:</span>
-                <span style="color: #1e293b; font-weight: 500;">${scrapedData.storage}</span>
-              </div>
-              ` : ''}
-              
-              ${scrapedData.color ? `
-              <div style="display: flex; justify-content: space-between; align-items: center; padding: 8px 0;">
-                <span style="color: #64748b; font-weight: 500;">Color:</span>
-                <span style="color: #1e293b; font-weight: 500;">${scrapedData.color}</span>
-              </div>
-              ` : ''}
-            </div>
-
-            ${!scrapedData.is_out_of_stock && savings > 0 ? `
-            <div style="background-color: #dcfce7; border: 1px solid #bbf7d0; padding: 15px; border-radius: 6px; margin-top: 15px;">
-              <p style="margin: 0; color: #166534; font-weight: 600; text-align: center;">
-                💰 You're already saving ₹${savings.toLocaleString()} from the original price!
-              </p>
-            </div>
-            ` : ''}
-
-            ${scrapedData.is_out_of_stock ? `
-            <div style="background-color: #fef2f2; border: 1px solid #fecaca; padding: 15px; border-radius: 6px; margin-top: 15px;">
-              <p style="margin: 0; color: #dc2626; font-weight: 600; text-align: center;">
-                📦 This product is currently out of stock. We'll notify you when it becomes available!
-              </p>
-            </div>
-            ` : ''}
-          </div>
-
-          <!-- What Happens Next -->
-          <div style="background-color: #eff6ff; border-left: 4px solid #2563eb; padding: 20px; margin-bottom: 25px;">
-            <h4 style="color: #1e40af; margin: 0 0 12px 0; font-size: 18px;">📋 What happens next?</h4>
-            <ul style="color: #1e40af; margin: 0; padding-left: 20px; line-height: 1.6;">
-              <li>We'll check this product's price and stock status every hour</li>
-              <li>You'll receive email alerts when prices drop or stock becomes available</li>
-              <li>Set custom price alerts for even better deals</li>
-              <li>View price history and trends in your dashboard</li>
-            </ul>
-          </div>
-
-          <!-- Action Buttons -->
-          <div style="text-align: center; margin-bottom: 25px;">
-            <a href="${product.url}" 
-               style="display: inline-block; background-color: #2563eb; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600; margin: 0 10px 10px 0; font-size: 16px;">
-              🛒 View on Cashify
-            </a>
-          </div>
-
-          <!-- Email Confirmation -->
-          <div style="background-color: #f0fdf4; border: 1px solid #bbf7d0; padding: 15px; border-radius: 6px; margin-bottom: 20px;">
-            <p style="margin: 0; color: #166534; text-align: center; font-weight: 500;">
-              ✉️ Email notifications are working! You'll receive alerts at <strong>${userEmail}</strong>
-            </p>
-          </div>
-
-          <!-- Footer -->
-          <div style="border-top: 1px solid #e2e8f0; padding-top: 20px; text-align: center;">
-            <p style="color: #64748b; font-size: 14px; margin: 0 0 10px 0;">
-              Happy shopping! 🛍️ We'll help you find the best deals.
-            </p>
-            <p style="color: #94a3b8; font-size: 12px; margin: 0;">
-              You received this email because you started tracking a product on PriceTracker.
-            </p>
-          </div>
-        </div>
-      </div>
-    `
-  };
-
-  try {
-    const response = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${resendApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(emailContent),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      throw new Error(`Resend API error: ${response.status} - ${errorData}`);
+    const addCheck = await consumeQuota(supabase, user.id, quotas, 'add', 0);
+    if (!addCheck.allowed) {
+      return quotaExceededResponse(
+        `You can add up to ${quotas.addsPerDay} products per day. Try again ${formatRetryAfter(addCheck.retryAfterSeconds)}.`,
+        addCheck.retryAfterSeconds,
+      );
     }
 
-    const result = await response.json();
-    console.log('✅ Email sent successfully via Resend:', result.id);
-    
-  } catch (error) {
-    console.error('❌ Failed to send email via Resend:', error);
-    
-    // Fallback: Log detailed email information
-    console.log('=== EMAIL NOTIFICATION (FALLBACK) ===');
-    console.log('To:', userEmail);
-    console.log('Subject:', emailContent.subject);
-    console.log('Product:', scrapedData.title);
-    console.log('Stock Status:', stockStatus);
-    console.log('Price:', scrapedData.is_out_of_stock ? 'N/A' : `₹${scrapedData.sale_price.toLocaleString()}`);
-    console.log('=====================================');
-    
-    throw error;
-  }
-}
-
-async function scrapeProduct(url: string): Promise<ScrapedData> {
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'DNT': '1',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1',
-      }
+    // Scrape the product data. Refuse to track anything we could not read
+    // rather than storing placeholder prices.
+    // `<RETAILER>_BASE_URL` points fetches at a mock server instead
+    const result = await scrapeProduct(retailer, url, {
+      baseUrl: Deno.env.get(baseUrlEnvName(retailer)),
     });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    if (result.status === 'failed') {
+      return new Response(
+        JSON.stringify({ error: scrapeFailureMessage(result.reason, retailer), code: result.reason }),
+        {
+          status: FAILURE_STATUS[result.reason],
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
     }
 
-    const html = await response.text();
-
-    // Check for out of stock first using the exact pattern you provided
-    const outOfStockPattern = /<h6[^>]*class="[^"]*subtitle1[^"]*text-center[^"]*py-2[^"]*px-1[^"]*sm:py-3[^"]*w-full[^"]*bg-primary\/70[^"]*text-primary-text-contrast[^"]*"[^>]*>Out of Stock<\/h6>/i;
-    const isOutOfStock = outOfStockPattern.test(html);
-
-    console.log('Out of stock check:', isOutOfStock ? 'OUT OF STOCK' : 'IN STOCK');
-
-    // Extract title from h1 tag or page title
-    let title = '';
-    const h1Match = html.match(/<h1[^>]*>([^<]+)<\/h1>/i);
-    if (h1Match) {
-      title = h1Match[1].trim();
-    } else {
-      const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-      title = titleMatch ? titleMatch[1].replace(/\s+/g, ' ').trim() : 'Unknown Product';
+    // Let the user pick which variants to follow. Pages offering just one
+    // are tracked as a whole.
+    const variants = result.data.variants ?? [];
+    if (!variantKeys?.length && variants.length > 1) {
+      return new Response(
+        JSON.stringify({
+          requiresVariantSelection: true,
+          title: result.data.title,
+          image_url: result.data.image_url,
+          variants,
+          trackedVariantKeys: variants.map(variant => variant.key).filter(key => trackedKeys.has(key)),
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
     }
 
-    // Extract MRP using the specific element you provided
-    let mrp = 0;
-    const mrpPattern = /<h6[^>]*class="[^"]*subtitle1[^"]*line-through[^"]*text-surface-text[^"]*"[^>]*>₹([0-9,]+)<\/h6>/i;
-    const mrpMatch = html.match(mrpPattern);
-    if (mrpMatch) {
-      mrp = parseInt(mrpMatch[1].replace(/,/g, ''));
+    // Variants the user already tracks are skipped
+    const keys = (variantKeys?.length ? [...new Set(variantKeys)] : ['']).filter(key => !trackedKeys.has(key));
+    if (keys.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Product is already being tracked' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
     }
 
-    // Fallback MRP patterns if the specific one doesn't match
-    if (!mrp) {
-      const fallbackMrpPatterns = [
-        /<h6[^>]*line-through[^>]*>₹([0-9,]+)<\/h6>/gi,
-        /<[^>]*line-through[^>]*>₹([0-9,]+)<\/[^>]*>/gi,
-        /₹([0-9,]+)[^0-9]*<\/del>/gi,
-        /₹([0-9,]+)[^0-9]*<\/s>/gi,
-      ];
-
-      for (const pattern of fallbackMrpPatterns) {
-        const match = pattern.exec(html);
-        if (match) {
-          const price = parseInt(match[1].replace(/,/g, ''));
-          if (price > 0 && price < 2000000) {
-            mrp = price;
-            break;
+    const selections: { key: string; result: Exclude<ScrapeResult, { status: 'failed' }> }[] = [];
+    for (const key of keys) {
+      const selected = selectVariant(result, key);
+      if (selected.status === 'failed') {
+        return new Response(
+          JSON.stringify({ error: scrapeFailureMessage(selected.reason, retailer), code: selected.reason }),
+          {
+            status: FAILURE_STATUS[selected.reason],
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           }
-        }
+        );
       }
+      selections.push({ key, result: selected });
     }
 
-    // Extract sale price using the specific element you provided
-    let sale_price = 0;
-    if (!isOutOfStock) {
-      const salePricePattern = /<span[^>]*class="[^"]*h1[^"]*"[^>]*itemprop="price"[^>]*>₹([0-9,]+)<\/span>/i;
-      const salePriceMatch = html.match(salePricePattern);
-      if (salePriceMatch) {
-        sale_price = parseInt(salePriceMatch[1].replace(/,/g, ''));
-      }
-
-      // Fallback sale price patterns if the specific one doesn't match
-      if (!sale_price) {
-        const fallbackSalePricePatterns = [
-          /<span[^>]*itemprop="price"[^>]*>₹([0-9,]+)<\/span>/gi,
-          /<span[^>]*class="[^"]*h1[^"]*"[^>]*>₹([0-9,]+)<\/span>/gi,
-          /"price"[^:]*:\s*"?₹?\s*([0-9,]+)"?/gi,
-          /class="[^"]*price[^"]*"[^>]*>₹\s*([0-9,]+)/gi,
-        ];
-
-        for (const pattern of fallbackSalePricePatterns) {
-          const match = pattern.exec(html);
-          if (match) {
-            const price = parseInt(match[1].replace(/,/g, ''));
-            if (price > 0 && price < 2000000) {
-              sale_price = price;
-              break;
-            }
-          }
+    if (trackedCount + selections.length > quotas.maxProducts) {
+      return new Response(
+        JSON.stringify({
+          error: `You can track ${quotas.maxProducts - trackedCount} more product${quotas.maxProducts - trackedCount === 1 ? '' : 's'}. Choose fewer variants.`,
+          code: 'PRODUCT_LIMIT_REACHED',
+        }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         }
-      }
+      );
     }
 
-    // Extract discount using the specific element you provided
-    let discount = '0%';
-    if (!isOutOfStock) {
-      const discountPattern = /<div[^>]*class="[^"]*h1[^"]*text-error[^"]*"[^>]*>-<!--\s*-->([0-9]+)<!--\s*-->%<\/div>/i;
-      const discountMatch = html.match(discountPattern);
-      if (discountMatch) {
-        discount = `${discountMatch[1]}%`;
-      }
-
-      // Fallback discount patterns if the specific one doesn't match
-      if (discount === '0%') {
-        const fallbackDiscountPatterns = [
-          /<div[^>]*text-error[^>]*>-[^0-9]*([0-9]+)[^0-9]*%<\/div>/gi,
-          /([0-9]+)%\s*OFF/gi,
-          /([0-9]+)%\s*off/gi,
-          /-([0-9]+)%/gi,
-        ];
-
-        for (const pattern of fallbackDiscountPatterns) {
-          const match = pattern.exec(html);
-          if (match) {
-            discount = `${match[1]}%`;
-            break;
-          }
-        }
-      }
+    const checkedAt = new Date().toISOString();
 
-      // If no discount found but we have both prices, calculate it
-      if (discount === '0%' && mrp > 0 && sale_price > 0 && mrp > sale_price) {
-        const discountPercent = Math.round(((mrp - sale_price) / mrp) * 100);
-        discount = `${discountPercent}%`;
-      }
-    }
+    // Later checks are rescheduled adaptively by update-prices
+    const nextCheckAt = addMinutes(checkedAt, baseIntervalMinutes(profile?.tier ?? 'free'));
 
-    // Extract detailed product information from the body element
-    let condition = 'Good'; // Default
-    let storage = '';
-    let ram = '';
-    let color = '';
-
-    // Look for the specific body element pattern you provided
-    const bodyPattern = /<div[^>]*class="[^"]*body2[^"]*mb-2[^"]*text-surface-text[^"]*"[^>]*>([^<]+)<\/div>/i;
-    const bodyMatch = html.match(bodyPattern);
-    
-    if (bodyMatch) {
-      const bodyText = bodyMatch[1].trim();
-      console.log('Found body text:', bodyText);
-      
-      // Parse the body text: "Cashify Warranty, Fair, 6 GB / 128 GB, Pacific Blue"
-      const parts = bodyText.split(',').map(part => part.trim());
-      
-      if (parts.length >= 2) {
-        // Second part is usually the condition
-        const conditionPart = parts[1];
-        if (['Fair', 'Good', 'Excellent', 'Superb'].some(c => conditionPart.toLowerCase().includes(c.toLowerCase()))) {
-          condition = conditionPart;
-        }
-      }
-      
-      if (parts.length >= 3) {
-        // Third part is usually RAM/Storage: "6 GB / 128 GB"
-        const storagePart = parts[2];
-        const storageMatch = storagePart.match(/(\d+\s*GB)\s*\/\s*(\d+\s*[GT]B)/i);
-        if (storageMatch) {
-          ram = storageMatch[1].trim();
-          storage = storageMatch[2].trim();
-        } else {
-          // Fallback: look for any storage pattern
-          const fallbackStorageMatch = storagePart.match(/(\d+\s*[GT]B)/i);
-          if (fallbackStorageMatch) {
-            storage = fallbackStorageMatch[1].trim();
-          }
-        }
-      }
-      
-      if (parts.length >= 4) {
-        // Fourth part is usually the color
-        color = parts[3];
-      }
+    // Each variant is a listing of its own; other users may already track it,
+    // in which case its history is shared
+    const rows = [];
+    for (const { key, result: variantResult } of selections) {
+      const scrapedData = variantResult.data;
+      rows.push({
+        user_id: user.id,
+        listing_id: await findOrCreateListing(supabase, canonicalUrl, key),
+        url,
+        canonical_url: canonicalUrl,
+        variant_key: key,
+        retailer: retailer.id,
+        title: scrapedData.title || `${retailer.name} Product`,
+        // Null while out of stock without a listed price
+        mrp: scrapedData.mrp ?? scrapedData.sale_price,
+        sale_price: scrapedData.sale_price,
+        discount: scrapedData.discount,
+        condition: scrapedData.condition || 'Unknown',
+        storage: scrapedData.storage,
+        ram: scrapedData.ram || '',
+        color: scrapedData.color || '',
+        image_url: scrapedData.image_url,
+        is_out_of_stock: scrapedData.is_out_of_stock,
+        last_checked: checkedAt,
+        last_check_status: variantResult.status,
+        next_check_at: nextCheckAt,
+      });
     }
 
-    // Fallback condition extraction if not found in body
-    if (condition === 'Good') {
-      const conditionPatterns = [
-        /Cashify Warranty[^,]*,\s*([^,]+)/i,
-        /"condition"[^:]*:\s*"([^"]+)"/i,
-        /(Fair|Good|Excellent|Superb)/gi,
-        /Condition[^>]*>([^<]+)</i,
-        /Grade[^>]*>([^<]+)</i,
-      ];
-
-      for (const pattern of conditionPatterns) {
-        const match = html.match(pattern);
-        if (match) {
-          condition = match[1].trim();
-          // Normalize condition values
-          if (condition.toLowerCase().includes('fair')) condition = 'Fair';
-          else if (condition.toLowerCase().includes('good')) condition = 'Good';
-          else if (condition.toLowerCase().includes('excellent')) condition = 'Excellent';
-          else if (condition.toLowerCase().includes('superb')) condition = 'Superb';
-          break;
-        }
-      }
+    // Every product added counts, including each variant of one page
+    const addUse = await consumeQuota(supabase, user.id, quotas, 'add', selections.length);
+    if (!addUse.allowed) {
+      const left = Math.max(0, quotas.addsPerDay - addUse.used);
+      return quotaExceededResponse(
+        `You can add ${left} more product${left === 1 ? '' : 's'} today. Choose fewer variants or try again ${formatRetryAfter(addUse.retryAfterSeconds)}.`,
+        addUse.retryAfterSeconds,
+      );
     }
 
-    // Fallback storage extraction if not found in body
-    if (!storage) {
-      const storagePatterns = [
-        /(\d+\s*GB)/gi,
-        /(\d+\s*TB)/gi,
-        /Storage[^>]*>([^<]*\d+[^<]*[GT]B[^<]*)</i,
-        /Memory[^>]*>([^<]*\d+[^<]*[GT]B[^<]*)</i
-      ];
-
-      // First try to extract from title
-      for (const pattern of storagePatterns) {
-        const matches = title.match(pattern);
-        if (matches) {
-          storage = matches[0].trim();
-          break;
-        }
-      }
+    // Store in database
+    const { data: products, error: dbError } = await supabase
+      .from('products')
+      .insert(rows)
+      .select();
 
-      // If not found in title, search in HTML
-      if (!storage) {
-        for (const pattern of storagePatterns) {
-          const matches = html.match(pattern);
-          if (matches) {
-            const storageValues = matches.map(m => m.trim()).filter(s => s.length < 20);
-            if (storageValues.length > 0) {
-              storage = storageValues[0];
-              break;
-            }
-          }
-        }
+    // Nothing was added, so the adds do not count
+    if (dbError) {
+      try {
+        await refundQuota(supabase, user.id, 'add', selections.length);
+      } catch (refundError) {
+        console.error('Error refunding add quota:', refundError);
       }
     }
 
-    // Extract image URL
-    let image_url = '';
-    const imagePatterns = [
-      /<img[^>]+src=["']([^"']*product[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
-      /<img[^>]+src=["']([^"']*mobile[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
-      /<img[^>]+src=["']([^"']*phone[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
-      /<img[^>]+src=["']([^"']*iphone[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
-      /<img[^>]+src=["']([^"']*\.(?:jpg|jpeg|png|webp))[^"']*["'][^>]*alt="[^"]*product[^"]*"/i
-    ];
-
-    for (const pattern of imagePatterns) {
-      const match = html.match(pattern);
-      if (match) {
-        image_url = match[1];
-        if (!image_url.startsWith('http')) {
-          image_url = new URL(image_url, url).href;
+    // Lost a race with a concurrent request for the same product
+    if (dbError?.code === '23505') {
+      return new Response(
+        JSON.stringify({ error: 'Product is already being tracked' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         }
-        break;
-      }
+      );
     }
 
-    // Clean up title
-    title = title.replace(/\s*-\s*Cashify.*$/i, '').replace(/\s+/g, ' ').trim();
-    if (title.length > 100) {
-      title = title.substring(0, 100) + '...';
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to save product data' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
     }
 
-    // Combine RAM and storage for the storage field if both are available
-    let finalStorage = storage;
-    if (ram && storage) {
-      finalStorage = `${ram} / ${storage}`;
-    } else if (ram && !storage) {
-      finalStorage = ram;
-    }
+    for (const product of products) {
+      const selection = selections.find(({ key }) => key === product.variant_key)!;
 
-    // For out of stock products, use fallback prices if needed
-    if (isOutOfStock) {
-      if (!mrp && !sale_price) {
-        mrp = 50000;
-        sale_price = 45000;
-      } else if (!sale_price) {
-        sale_price = mrp || 45000;
-      } else if (!mrp) {
-        mrp = sale_price + 5000;
+      try {
+        await recordPriceCheck(supabase, product.listing_id, selection.result, 'initial', checkedAt);
+      } catch (pointError) {
+        console.error('Error recording initial price check:', pointError);
       }
-    }
 
-    // Ensure we have valid data
-    if (!mrp && !sale_price) {
-      throw new Error('Could not extract price information from the page');
+      // Queue tracking confirmation email
+      try {
+        await enqueueNotification(supabase, {
+          userId: user.id,
+          kind: 'tracking_confirmation',
+          recipient: user.email,
+          productId: product.id,
+          content: trackingConfirmationEmail(user.email!, product.url, selection.result.data),
+        });
+      } catch (emailError) {
+        console.error('Error queueing confirmation email:', emailError);
+        // Don't fail the request if email fails, just log it
+      }
     }
 
-    return {
-      title: title || 'Cashify Product',
-      mrp: mrp || sale_price || 50000,
-      sale_price: sale_price || mrp || 45000,
-      discount,
-      condition,
-      storage: finalStorage || '128GB',
-      ram,
-      color,
-      image_url: image_url || undefined,
-      is_out_of_stock: isOutOfStock
-    };
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        products,
+        message: products.length > 1
+          ? `Tracking ${products.length} variants! Check your email for confirmation.`
+          : 'Product tracking started successfully! Check your email for confirmation.'
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
 
   } catch (error) {
-    console.error('Scraping error:', error);
-    
-    // Return fallback data based on URL analysis
-    const urlTitle = url.split('/').pop()?.replace(/-/g, ' ') || 'Product';
-    return {
-      title: `Cashify ${urlTitle.charAt(0).toUpperCase() + urlTitle.slice(1)}`,
-      mrp: 50000,
-      sale_price: 45000,
-      discount: '10%',
-      condition: 'Good',
-      storage: '128GB',
-      is_out_of_stock: false
-    };
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
   }
-}
\ No newline at end of file
+});
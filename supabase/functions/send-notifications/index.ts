@@ -0,0 +1,147 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { sendEmail } from '../_shared/mailer.ts';
+import { releaseAlertTrigger, resolveRecipient } from '../_shared/outbox.ts';
+
+const BATCH_SIZE = 50;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+interface OutboxRow {
+  id: string;
+  user_id: string;
+  recipient: string | null;
+  subject: string;
+  html: string;
+  alert_id: string | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+// 1, 2, 4, 8... minutes after each failed attempt, capped at an hour
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only the scheduler, which holds the service role key, may drain the outbox
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: claimed, error: claimError } = await supabase
+      .rpc('claim_notifications', { p_limit: BATCH_SIZE });
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    const notifications: OutboxRow[] = claimed || [];
+    let sent = 0;
+    let retrying = 0;
+    let failed = 0;
+
+    for (const notification of notifications) {
+      try {
+        const recipient = notification.recipient
+          ?? await resolveRecipient(supabase, notification.user_id);
+
+        await sendEmail({
+          to: recipient,
+          subject: notification.subject,
+          html: notification.html,
+        });
+
+        const sentAt = new Date().toISOString();
+        await supabase
+          .from('notification_outbox')
+          .update({
+            status: 'sent',
+            recipient,
+            last_error: null,
+            sent_at: sentAt,
+            updated_at: sentAt,
+          })
+          .eq('id', notification.id);
+
+        // A delivered one-off price alert has done its job
+        if (notification.alert_id) {
+          await supabase
+            .from('price_alerts')
+            .update({ is_active: false, updated_at: sentAt })
+            .eq('id', notification.alert_id)
+            .eq('mode', 'once');
+        }
+
+        sent++;
+      } catch (error) {
+        const gaveUp = notification.attempts >= notification.max_attempts;
+        const now = Date.now();
+
+        console.error(`Error sending notification ${notification.id} (attempt ${notification.attempts}):`, error);
+
+        await supabase
+          .from('notification_outbox')
+          .update({
+            status: gaveUp ? 'failed' : 'pending',
+            last_error: error.message,
+            next_attempt_at: new Date(now + retryDelay(notification.attempts)).toISOString(),
+            updated_at: new Date(now).toISOString(),
+          })
+          .eq('id', notification.id);
+
+        if (gaveUp) {
+          // The alert was claimed when this was queued; let it fire again
+          if (notification.alert_id) {
+            try {
+              await releaseAlertTrigger(supabase, notification.alert_id);
+            } catch (releaseError) {
+              console.error(`Error releasing alert ${notification.alert_id}:`, releaseError);
+            }
+          }
+          failed++;
+        } else {
+          retrying++;
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ claimed: notifications.length, sent, retrying, failed }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error sending notifications:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
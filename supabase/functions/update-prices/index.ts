@@ -1,19 +1,56 @@
 import { corsHeaders } from '../_shared/cors.ts';
-import { createClient } from 'npm:@supabase/supabase-js@2';
-
-interface ScrapedData {
-  title: string;
-  mrp: number;
-  sale_price: number;
-  discount: string;
-  condition: string;
-  storage: string;
-  ram?: string;
-  color?: string;
-  image_url?: string;
-  is_out_of_stock?: boolean;
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { scrapeProduct, selectVariant, type ScrapedData, type ScrapeResult } from '../_shared/scraper.ts';
+import { baseUrlEnvName, getRetailer } from '../_shared/retailers/index.ts';
+import { recordPriceCheck, type PricePointSource } from '../_shared/price-checks.ts';
+import { createHostRateLimiter } from '../_shared/rate-limit.ts';
+import { runPool } from '../_shared/worker-pool.ts';
+import { finishScrapeRun, recordScrapeAttempt, startScrapeRun } from '../_shared/scrape-runs.ts';
+import { authenticateCaller } from '../_shared/auth.ts';
+import { formatRetryAfter } from '../_shared/quotas.ts';
+import { consumeQuota, fetchQuotas, quotaExceededResponse } from '../_shared/quota-usage.ts';
+import {
+  addMinutes,
+  failureBackoffMinutes,
+  nextCheckIntervalMinutes,
+  shouldPause,
+  VOLATILITY_WINDOW_DAYS,
+  type UserTier,
+} from '../_shared/scheduling.ts';
+import { enqueueNotification } from '../_shared/outbox.ts';
+import {
+  describeAlertRule,
+  evaluateAlertRule,
+  nextAlertAction,
+  staysArmedAfterTrigger,
+  type AlertRule,
+  type AlertSchedule,
+  type PriceObservation,
+} from '../_shared/alerts.ts';
+import { priceAlertEmail, stockAlertEmail } from '../_shared/email-templates.ts';
+
+// Batch tuning, overridable per deployment
+const CONCURRENCY = Number(Deno.env.get('UPDATE_CONCURRENCY') ?? 4);
+const TIME_BUDGET_MS = Number(Deno.env.get('UPDATE_TIME_BUDGET_MS') ?? 120_000);
+const BATCH_SIZE = Number(Deno.env.get('UPDATE_BATCH_SIZE') ?? 100);
+
+/**
+ * With neither field, the scheduler's batch run of every overdue product.
+ * Users may only refresh their own products, and a user sending neither
+ * refreshes all of them.
+ */
+interface RequestBody {
+  /** Refresh one product, along with every row tracking its listing */
+  productId?: string;
+  /** Refresh every product of one user, along with every row sharing their listings */
+  userId?: string;
 }
 
+const rateLimiter = createHostRateLimiter({
+  ratePerSecond: Number(Deno.env.get('UPDATE_HOST_RATE_PER_SECOND') ?? 1),
+  burst: Number(Deno.env.get('UPDATE_HOST_BURST') ?? 2),
+});
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -23,40 +60,162 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  // Initialize Supabase client with service role key for admin access
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Only the scheduler (or another backend with the service role key) may run
+  // a batch or refresh anyone's products; users refresh their own
+  const caller = await authenticateCaller(req, supabase, supabaseServiceKey);
+  if (!caller) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  const body: RequestBody = await req.json().catch(() => ({}));
+  const { productId } = body;
+  const callerId = caller.kind === 'user' ? caller.user.id : null;
+  const ownerId = productId ? undefined : body.userId ?? callerId ?? undefined;
+
+  if (productId && body.userId) {
+    return new Response(
+      JSON.stringify({ error: 'Pass either productId or userId, not both' }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  if (callerId && ownerId && ownerId !== callerId) {
+    return new Response(
+      JSON.stringify({ error: 'You can only refresh your own products' }),
+      {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Every authorized invocation is logged as a run, including empty and
+  // crashed ones, since the cron discards the response
+  const startedAt = new Date().toISOString();
+  let runId: string | null = null;
+
   try {
-    // Initialize Supabase client with service role key for admin access
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    let targetListingId: string | null = null;
+    if (productId) {
+      // Other users' products are reported as missing, not forbidden, so
+      // their ids cannot be probed
+      let query = supabase
+        .from('products')
+        .select('listing_id')
+        .eq('id', productId);
+      if (callerId) {
+        query = query.eq('user_id', callerId);
+      }
 
-    // Parse request body to check for specific product ID
-    const body = await req.json().catch(() => ({}));
-    const { productId } = body;
+      const { data, error } = await query.maybeSingle();
+      if (error) {
+        throw error;
+      }
+
+      if (!data) {
+        return new Response(
+          JSON.stringify({ error: 'Product not found' }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      targetListingId = data.listing_id;
+    }
+
+    // Every manual refresh by a user counts against their hourly quota, so
+    // rapid clicking cannot hammer the retailer
+    if (callerId) {
+      const quotas = await fetchQuotas(supabase, callerId);
+      const refresh = await consumeQuota(supabase, callerId, quotas, 'refresh');
+      if (!refresh.allowed) {
+        return quotaExceededResponse(
+          `You can refresh up to ${quotas.refreshesPerHour} times per hour. Try again ${formatRetryAfter(refresh.retryAfterSeconds)}.`,
+          refresh.retryAfterSeconds,
+        );
+      }
+    }
+
+    const source = productId || ownerId ? 'manual' : 'scheduled';
+    runId = await startScrapeRun(supabase, source, startedAt);
 
     let products;
     let fetchError;
 
-    if (productId) {
-      // Update specific product
-      const { data, error } = await supabase
+    if (targetListingId) {
+      // Update specific product, along with every row tracking its listing
+      const { data: listingProducts, error: listingError } = await supabase
         .from('products')
         .select('*')
-        .eq('id', productId)
-        .single();
+        .eq('listing_id', targetListingId);
 
-      if (error) {
-        throw error;
+      fetchError = listingError;
+
+      // A manual refresh is a fresh start, even for a paused product
+      products = (listingProducts || []).map(product =>
+        product.id === productId ? { ...product, consecutive_failures: 0 } : product
+      );
+    } else if (ownerId) {
+      // Every product of one user, along with every row sharing their listings
+      const { data: ownProducts, error: ownError } = await supabase
+        .from('products')
+        .select('id, listing_id')
+        .eq('user_id', ownerId);
+
+      if (ownError) {
+        throw ownError;
       }
 
-      products = data ? [data] : [];
+      const ownIds = new Set((ownProducts || []).map(product => product.id));
+      const listingIds = [...new Set((ownProducts || []).map(product => product.listing_id))];
+      const { data, error } = await supabase
+        .from('products')
+        .select('*')
+        .in('listing_id', listingIds)
+        .order('next_check_at', { ascending: true });
+
+      fetchError = error;
+
+      // As above, the user's paused products get a fresh start
+      products = (data || []).map(product =>
+        ownIds.has(product.id) ? { ...product, consecutive_failures: 0 } : product
+      );
     } else {
-      // Get all products that need updating (last checked more than 1 hour ago)
-      const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-      
+      // The most overdue products, up to one batch per run
+      const { data: dueProducts, error: dueError } = await supabase
+        .from('products')
+        .select('listing_id')
+        .is('paused_at', null)
+        .lte('next_check_at', new Date().toISOString())
+        .order('next_check_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (dueError) {
+        throw dueError;
+      }
+
+      // Every row tracking a due listing shares its check
+      const listingIds = [...new Set((dueProducts || []).map(product => product.listing_id))];
       const { data, error } = await supabase
         .from('products')
         .select('*')
-        .lt('last_checked', oneHourAgo);
+        .in('listing_id', listingIds)
+        .order('next_check_at', { ascending: true });
 
       fetchError = error;
       products = data || [];
@@ -67,9 +226,18 @@ Deno.serve(async (req: Request) => {
     }
 
     if (!products || products.length === 0) {
+      await finishScrapeRun(supabase, runId, startedAt, {
+        listingsAttempted: 0,
+        productsAttempted: 0,
+        productsSucceeded: 0,
+        productsFailed: 0,
+        failuresByReason: {},
+        remaining: 0,
+      });
+
       const message = productId 
         ? 'Product not found or does not need updating'
-        : 'No products need updating';
+        : ownerId ? 'No products to update' : 'No products need updating';
       
       return new Response(
         JSON.stringify({ message, updated: 0 }),
@@ -80,90 +248,73 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    let updatedCount = 0;
+    const updatedIds: string[] = [];
+    const processed: ProductRow[] = [];
+    let listingsAttempted = 0;
     const errors: string[] = [];
+    const failuresByReason: Record<string, number> = {};
+
+    // Users tracking the same variant of a page share a listing. Each page is
+    // scraped once and fanned out to all of its listings and their rows.
+    // Groups keep the oldest-first order.
+    const pages = new Map<string, ProductRow[]>();
+    for (const product of products as ProductRow[]) {
+      const group = pages.get(product.canonical_url) ?? [];
+      group.push(product);
+      pages.set(product.canonical_url, group);
+    }
 
-    // Update each product
-    for (const product of products) {
-      try {
-        const scrapedData = await scrapeProduct(product.url);
-        
-        // Update price history if price changed (only for in-stock products)
-        const currentPriceHistory = product.price_history || [];
-        const lastPrice = currentPriceHistory.length > 0 
-          ? currentPriceHistory[currentPriceHistory.length - 1].price 
-          : 0;
-
-        let newPriceHistory = currentPriceHistory;
-        if (!scrapedData.is_out_of_stock && lastPrice !== scrapedData.sale_price) {
-          newPriceHistory = [
-            ...currentPriceHistory,
-            {
-              price: scrapedData.sale_price,
-              checked_at: new Date().toISOString()
-            }
-          ];
-        }
-
-        // Check for stock status change
-        const stockStatusChanged = product.is_out_of_stock !== scrapedData.is_out_of_stock;
-
-        // Update product in database
-        const { error: updateError } = await supabase
-          .from('products')
-          .update({
-            title: scrapedData.title,
-            mrp: scrapedData.mrp,
-            sale_price: scrapedData.sale_price,
-            discount: scrapedData.discount,
-            condition: scrapedData.condition,
-            storage: scrapedData.storage,
-            ram: scrapedData.ram || '',
-            color: scrapedData.color || '',
-            image_url: scrapedData.image_url,
-            is_out_of_stock: scrapedData.is_out_of_stock || false,
-            price_history: newPriceHistory,
-            last_checked: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', product.id);
-
-        if (updateError) {
-          errors.push(`Failed to update product ${product.id}: ${updateError.message}`);
-        } else {
-          updatedCount++;
-          
-          // Check for price alerts if price dropped (only for in-stock products)
-          if (!scrapedData.is_out_of_stock && lastPrice > scrapedData.sale_price) {
-            await checkPriceAlerts(supabase, product.id, scrapedData.sale_price);
-          }
-
-          // Send stock alert if product came back in stock
-          if (stockStatusChanged && !scrapedData.is_out_of_stock && product.is_out_of_stock) {
-            await sendStockAlert(supabase, product, scrapedData);
-          }
-        }
+    // Batch runs share the hosts they scrape, so pace requests per host and
+    // stop starting new pages once the time budget is spent. Whatever is
+    // left stays overdue and is picked up first next time.
+    const deadline = productId ? undefined : Date.now() + TIME_BUDGET_MS;
+    const concurrency = productId ? 1 : CONCURRENCY;
 
-        // Add delay between requests to avoid rate limiting (only for batch updates)
-        if (!productId) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
+    await runPool([...pages], { concurrency, deadline }, async ([canonicalUrl, group]) => {
+      if (!(await rateLimiter.acquire(group[0].url, deadline))) {
+        return;
+      }
 
+      listingsAttempted += new Set(group.map(product => product.listing_id)).size;
+      try {
+        const outcome = await updatePage(supabase, runId, group, source);
+        updatedIds.push(...outcome.updatedIds);
+        errors.push(...outcome.errors);
+        addFailures(failuresByReason, outcome.failures);
       } catch (error) {
-        errors.push(`Failed to scrape product ${product.id}: ${error.message}`);
+        errors.push(`Failed to scrape ${canonicalUrl}: ${error.message}`);
+        failuresByReason.INTERNAL_ERROR = (failuresByReason.INTERNAL_ERROR ?? 0) + group.length;
       }
-    }
+      processed.push(...group);
+    });
+
+    await finishScrapeRun(supabase, runId, startedAt, {
+      listingsAttempted,
+      productsAttempted: processed.length,
+      productsSucceeded: updatedIds.length,
+      productsFailed: processed.length - updatedIds.length,
+      failuresByReason,
+      remaining: products.length - processed.length,
+    });
+
+    // Users only hear about their own rows, not the other users sharing
+    // their listings
+    const visible = (product: ProductRow) => !callerId || product.user_id === callerId;
+    const visibleIds = new Set((products as ProductRow[]).filter(visible).map(product => product.id));
+    const updatedCount = updatedIds.filter(id => visibleIds.has(id)).length;
+    const remaining = visibleIds.size - processed.filter(visible).length;
 
     const message = productId 
       ? `Updated product successfully`
-      : `Updated ${updatedCount} products`;
+      : `Updated ${updatedCount} products${remaining > 0 ? `, ${remaining} left for the next run` : ''}`;
 
     return new Response(
       JSON.stringify({ 
         message,
         updated: updatedCount,
-        total: products.length,
-        errors: errors.length > 0 ? errors : undefined
+        total: visibleIds.size,
+        remaining: remaining > 0 ? remaining : undefined,
+        errors: !callerId && errors.length > 0 ? errors : undefined
       }),
       {
         status: 200,
@@ -173,6 +324,15 @@ Deno.serve(async (req: Request) => {
 
   } catch (error) {
     console.error('Error updating prices:', error);
+    await finishScrapeRun(supabase, runId, startedAt, {
+      listingsAttempted: 0,
+      productsAttempted: 0,
+      productsSucceeded: 0,
+      productsFailed: 0,
+      failuresByReason: {},
+      remaining: 0,
+      error: error instanceof Error ? error.message : String(error),
+    });
     return new Response(
       JSON.stringify({ error: 'Internal server error' }),
       {
@@ -183,436 +343,406 @@ Deno.serve(async (req: Request) => {
   }
 });
 
-async function sendStockAlert(supabase: any, product: any, scrapedData: ScrapedData) {
-  try {
-    // Get user email
-    const { data: user } = await supabase.auth.admin.getUserById(product.user_id);
-    
-    if (!user?.user?.email) {
-      console.error('User email not found for stock alert');
-      return;
-    }
+interface ProductRow {
+  id: string;
+  user_id: string;
+  listing_id: string;
+  canonical_url: string;
+  variant_key: string;
+  retailer: string;
+  url: string;
+  title: string;
+  mrp: number | null;
+  sale_price: number | null;
+  discount: string;
+  condition: string;
+  storage: string;
+  ram: string | null;
+  color: string | null;
+  image_url: string | null;
+  is_out_of_stock: boolean;
+  consecutive_failures: number;
+  paused_at: string | null;
+}
 
-    const emailContent = {
-      to: user.user.email,
-      subject: `🎉 Back in Stock: ${scrapedData.title}`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #059669;">Great News! Product is Back in Stock!</h2>
-          <p>The product you've been tracking is now available for purchase.</p>
-          
-          <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <h3 style="margin: 0 0 10px 0;">${scrapedData.title}</h3>
-            <p style="margin: 5px 0;"><strong>Current Price:</strong> ₹${scrapedData.sale_price.toLocaleString()}</p>
-            <p style="margin: 5px 0;"><strong>Status:</strong> <span style="color: #059669; font-weight: bold;">In Stock</span></p>
-            <p style="margin: 5px 0;"><strong>Condition:</strong> ${scrapedData.condition}</p>
-          </div>
-          
-          <a href="${product.url}" 
-             style="display: inline-block; background-color: #059669; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0;">
-            Buy Now on Cashify
-          </a>
-          
-          <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
-            Don't wait too long - popular items can go out of stock quickly!
-          </p>
-        </div>
-      `
-    };
-
-    console.log('Stock alert email would be sent:', emailContent);
-    console.log(`✅ Stock alert sent to ${user.user.email} for product: ${scrapedData.title}`);
-  } catch (error) {
-    console.error('Error sending stock alert:', error);
+interface UpdateOutcome {
+  /** Products the check was applied to */
+  updatedIds: string[];
+  errors: string[];
+  /** Failed products keyed by scrape failure reason, or `UPDATE_ERROR` */
+  failures: Record<string, number>;
+}
+
+function addFailures(total: Record<string, number>, failures: Record<string, number>) {
+  for (const [reason, count] of Object.entries(failures)) {
+    total[reason] = (total[reason] ?? 0) + count;
   }
 }
 
-async function checkPriceAlerts(supabase: any, productId: string, newPrice: number) {
-  try {
-    // Get active alerts for this product where target price is met
-    const { data: alerts, error } = await supabase
-      .from('price_alerts')
-      .select(`
-        *,
-        products!inner(title, url),
-        users:user_id(email)
-      `)
-      .eq('product_id', productId)
-      .eq('is_active', true)
-      .gte('target_price', newPrice);
+/** Scrapes one page and applies the result to every listing tracking it */
+async function updatePage(
+  supabase: SupabaseClient,
+  runId: string | null,
+  products: ProductRow[],
+  source: PricePointSource,
+): Promise<UpdateOutcome> {
+  const retailer = getRetailer(products[0].retailer);
+  if (!retailer) {
+    throw new Error(`Unknown retailer "${products[0].retailer}"`);
+  }
 
-    if (error) {
-      console.error('Error fetching alerts:', error);
-      return;
-    }
+  // `<RETAILER>_BASE_URL` points fetches at a mock server instead
+  const scrapeStartedAt = Date.now();
+  const result = await scrapeProduct(retailer, products[0].url, {
+    baseUrl: Deno.env.get(baseUrlEnvName(retailer)),
+  });
+  const checkedAt = new Date().toISOString();
+
+  await recordScrapeAttempt(supabase, runId, {
+    listingId: products[0].listing_id,
+    url: products[0].url,
+    productsCount: products.length,
+    result,
+    durationMs: Date.now() - scrapeStartedAt,
+    attemptedAt: checkedAt,
+  });
+
+  const listings = new Map<string, ProductRow[]>();
+  for (const product of products) {
+    const group = listings.get(product.listing_id) ?? [];
+    group.push(product);
+    listings.set(product.listing_id, group);
+  }
 
-    if (!alerts || alerts.length === 0) {
-      return;
-    }
+  const outcome: UpdateOutcome = { updatedIds: [], errors: [], failures: {} };
+  for (const [listingId, group] of listings) {
+    const listingOutcome = await updateListing(
+      supabase,
+      listingId,
+      group,
+      selectVariant(result, group[0].variant_key),
+      source,
+      checkedAt,
+    );
+    outcome.updatedIds.push(...listingOutcome.updatedIds);
+    outcome.errors.push(...listingOutcome.errors);
+    addFailures(outcome.failures, listingOutcome.failures);
+  }
+  return outcome;
+}
 
-    // Send email notifications for triggered alerts
-    for (const alert of alerts) {
-      try {
-        await sendPriceAlertEmail(supabase, alert, newPrice);
-        
-        // Deactivate the alert after sending notification
-        await supabase
-          .from('price_alerts')
-          .update({ is_active: false, updated_at: new Date().toISOString() })
-          .eq('id', alert.id);
-          
-      } catch (emailError) {
-        console.error('Error sending price alert email:', emailError);
-      }
+/** Records a check of one variant of a page and copies it onto its rows */
+async function updateListing(
+  supabase: SupabaseClient,
+  listingId: string,
+  products: ProductRow[],
+  result: ScrapeResult,
+  source: PricePointSource,
+  checkedAt: string,
+): Promise<UpdateOutcome> {
+  // Last in-stock price seen before this check, for drop detection
+  const { data: lastPoint } = await supabase
+    .from('price_points')
+    .select('price')
+    .eq('listing_id', listingId)
+    .eq('in_stock', true)
+    .not('price', 'is', null)
+    .order('checked_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const lastPrice = lastPoint ? Number(lastPoint.price) : null;
+
+  // Every check is recorded once per listing, including failures and
+  // out-of-stock pages
+  await recordPriceCheck(supabase, listingId, result, source, checkedAt);
+
+  // Price changes and stock transitions between runs; mrp-only changes and
+  // failed checks in between do not count
+  const windowStart = addMinutes(checkedAt, -VOLATILITY_WINDOW_DAYS * 24 * 60);
+  const { data: changeCount, error: changeCountError } = await supabase
+    .rpc('count_listing_changes', { p_listing_id: listingId, p_since: windowStart });
+  if (changeCountError) {
+    console.error('Error counting listing changes:', changeCountError);
+  }
+  const recentChanges = Number(changeCount ?? 0);
+
+  // Users without a profile row are on the free tier
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, tier')
+    .in('id', [...new Set(products.map(product => product.user_id))]);
+  const tiers = new Map<string, UserTier>((profiles || []).map(profile => [profile.id, profile.tier]));
+
+  const outcome: UpdateOutcome = { updatedIds: [], errors: [], failures: {} };
+  const failureReason = result.status === 'failed' ? result.reason : 'UPDATE_ERROR';
+  for (const product of products) {
+    const error = await applyCheck(supabase, product, result, {
+      lastPrice,
+      recentChanges,
+      tier: tiers.get(product.user_id) ?? 'free',
+    }, checkedAt);
+    if (error) {
+      outcome.errors.push(error);
+      outcome.failures[failureReason] = (outcome.failures[failureReason] ?? 0) + 1;
+    } else {
+      outcome.updatedIds.push(product.id);
     }
-  } catch (error) {
-    console.error('Error checking price alerts:', error);
   }
+  return outcome;
 }
 
-async function sendPriceAlertEmail(supabase: any, alert: any, newPrice: number) {
-  // This would typically integrate with an email service like SendGrid, Resend, etc.
-  // For now, we'll log the email that would be sent
-  
-  const emailContent = {
-    to: alert.users.email,
-    subject: `🎉 Price Alert: ${alert.products.title} is now ₹${newPrice.toLocaleString()}!`,
-    html: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #2563eb;">Price Alert Triggered!</h2>
-        <p>Great news! The price for your tracked product has dropped below your target price.</p>
-        
-        <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
-          <h3 style="margin: 0 0 10px 0;">${alert.products.title}</h3>
-          <p style="margin: 5px 0;"><strong>New Price:</strong> ₹${newPrice.toLocaleString()}</p>
-          <p style="margin: 5px 0;"><strong>Your Target:</strong> ₹${alert.target_price.toLocaleString()}</p>
-          <p style="margin: 5px 0;"><strong>You Save:</strong> ₹${(alert.target_price - newPrice).toLocaleString()} below your target!</p>
-        </div>
-        
-        <a href="${alert.products.url}" 
-           style="display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0;">
-          View Product on Cashify
-        </a>
-        
-        <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
-          This alert has been automatically deactivated. You can set up a new alert if you'd like to continue tracking this product.
-        </p>
-        
-        <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
-        <p style="color: #6b7280; font-size: 12px;">
-          You received this email because you set up a price alert on PriceTracker.
-        </p>
-      </div>
-    `
-  };
-
-  console.log('Price alert email would be sent:', emailContent);
-  
-  // In a real implementation, you would send the email here:
-  // await emailService.send(emailContent);
+/** What a check of a listing knows beyond the scrape itself */
+interface CheckContext {
+  /** Last in-stock price before this check */
+  lastPrice: number | null;
+  /** Changes of the listing within the volatility window */
+  recentChanges: number;
+  tier: UserTier;
 }
 
-async function scrapeProduct(url: string): Promise<ScrapedData> {
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'DNT': '1',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1',
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const html = await response.text();
-
-    // Check for out of stock first
-    const outOfStockPattern = /<h6[^>]*class="[^"]*subtitle1[^"]*text-center[^"]*py-2[^"]*px-1[^"]*sm:py-3[^"]*w-full[^"]*bg-primary\/70[^"]*text-primary-text-contrast[^"]*"[^>]*>Out of Stock<\/h6>/i;
-    const isOutOfStock = outOfStockPattern.test(html);
+/**
+ * Copies a listing check onto one user's product row, runs its alerts and
+ * schedules its next check.
+ */
+async function applyCheck(
+  supabase: SupabaseClient,
+  product: ProductRow,
+  result: ScrapeResult,
+  context: CheckContext,
+  checkedAt: string,
+): Promise<string | null> {
+  // A failed scrape leaves the last known prices and stock status as
+  // they were. Repeated failures back off exponentially and eventually pause
+  // the product, so removed listings stop being fetched.
+  if (result.status === 'failed') {
+    const failures = product.consecutive_failures + 1;
+    const paused = shouldPause(failures);
+
+    await supabase
+      .from('products')
+      .update({
+        last_checked: checkedAt,
+        last_check_status: 'failed',
+        last_check_error: result.reason,
+        consecutive_failures: failures,
+        paused_at: paused ? product.paused_at ?? checkedAt : null,
+        next_check_at: addMinutes(checkedAt, failureBackoffMinutes(context.tier, failures)),
+      })
+      .eq('id', product.id);
+
+    return paused
+      ? `Paused product ${product.id} after ${failures} failed checks: ${result.reason} (${result.message})`
+      : `Failed to scrape product ${product.id}: ${result.reason} (${result.message})`;
+  }
 
-    console.log('Out of stock check:', isOutOfStock ? 'OUT OF STOCK' : 'IN STOCK');
+  const scrapedData = result.data;
+  const salePrice = scrapedData.sale_price;
+
+  // Check for stock status change
+  const stockStatusChanged = product.is_out_of_stock !== scrapedData.is_out_of_stock;
+
+  const alerts = await fetchActiveAlerts(supabase, product.id);
+  const nextCheckAt = addMinutes(checkedAt, nextCheckIntervalMinutes({
+    tier: context.tier,
+    recentChanges: context.recentChanges,
+    price: salePrice ?? product.sale_price,
+    isOutOfStock: scrapedData.is_out_of_stock,
+    alerts,
+  }));
+
+  // Fields the scraper could not read keep their stored values
+  const { error: updateError } = await supabase
+    .from('products')
+    .update({
+      title: scrapedData.title || product.title,
+      mrp: scrapedData.mrp ?? product.mrp,
+      sale_price: salePrice ?? product.sale_price,
+      discount: scrapedData.mrp !== null && salePrice !== null ? scrapedData.discount : product.discount,
+      condition: scrapedData.condition || product.condition,
+      storage: scrapedData.storage || product.storage,
+      ram: scrapedData.ram || product.ram || '',
+      color: scrapedData.color || product.color || '',
+      image_url: scrapedData.image_url ?? product.image_url,
+      is_out_of_stock: scrapedData.is_out_of_stock,
+      last_checked: checkedAt,
+      last_check_status: result.status,
+      last_check_error: null,
+      consecutive_failures: 0,
+      paused_at: null,
+      next_check_at: nextCheckAt,
+      updated_at: checkedAt,
+    })
+    .eq('id', product.id);
+
+  if (updateError) {
+    return `Failed to update product ${product.id}: ${updateError.message}`;
+  }
 
-    // Extract title from h1 tag or page title
-    let title = '';
-    const h1Match = html.match(/<h1[^>]*>([^<]+)<\/h1>/i);
-    if (h1Match) {
-      title = h1Match[1].trim();
-    } else {
-      const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-      title = titleMatch ? titleMatch[1].replace(/\s+/g, ' ').trim() : 'Unknown Product';
-    }
+  // Evaluate price alerts against the current state on every priced,
+  // in-stock check. Alerts that already fired for this state are
+  // disarmed, so repeated checks don't notify again.
+  if (!scrapedData.is_out_of_stock && salePrice !== null) {
+    await checkPriceAlerts(supabase, product, alerts, {
+      price: salePrice,
+      discount: scrapedData.mrp !== null ? parseFloat(scrapedData.discount) : null,
+      previousPrice: context.lastPrice,
+    }, checkedAt);
+  }
 
-    // Extract MRP using the specific element you provided
-    let mrp = 0;
-    const mrpPattern = /<h6[^>]*class="[^"]*subtitle1[^"]*line-through[^"]*text-surface-text[^"]*"[^>]*>₹([0-9,]+)<\/h6>/i;
-    const mrpMatch = html.match(mrpPattern);
-    if (mrpMatch) {
-      mrp = parseInt(mrpMatch[1].replace(/,/g, ''));
-    }
+  // Send stock alert if product came back in stock
+  if (stockStatusChanged && !scrapedData.is_out_of_stock && product.is_out_of_stock) {
+    await sendStockAlert(supabase, product, scrapedData);
+  }
 
-    // Fallback MRP patterns if the specific one doesn't match
-    if (!mrp) {
-      const fallbackMrpPatterns = [
-        /<h6[^>]*line-through[^>]*>₹([0-9,]+)<\/h6>/gi,
-        /<[^>]*line-through[^>]*>₹([0-9,]+)<\/[^>]*>/gi,
-        /₹([0-9,]+)[^0-9]*<\/del>/gi,
-        /₹([0-9,]+)[^0-9]*<\/s>/gi,
-      ];
-
-      for (const pattern of fallbackMrpPatterns) {
-        const match = pattern.exec(html);
-        if (match) {
-          const price = parseInt(match[1].replace(/,/g, ''));
-          if (price > 0 && price < 2000000) {
-            mrp = price;
-            break;
-          }
-        }
-      }
-    }
+  return null;
+}
 
-    // Extract sale price using the specific element you provided
-    let sale_price = 0;
-    if (!isOutOfStock) {
-      const salePricePattern = /<span[^>]*class="[^"]*h1[^"]*"[^>]*itemprop="price"[^>]*>₹([0-9,]+)<\/span>/i;
-      const salePriceMatch = html.match(salePricePattern);
-      if (salePriceMatch) {
-        sale_price = parseInt(salePriceMatch[1].replace(/,/g, ''));
-      }
+async function sendStockAlert(supabase: SupabaseClient, product: ProductRow, scrapedData: ScrapedData) {
+  try {
+    await enqueueNotification(supabase, {
+      userId: product.user_id,
+      kind: 'stock_alert',
+      productId: product.id,
+      dedupeKey: `stock_alert:${product.id}`,
+      content: stockAlertEmail({
+        title: scrapedData.title || product.title,
+        url: product.url,
+        sale_price: scrapedData.sale_price ?? product.sale_price,
+        condition: scrapedData.condition || product.condition,
+      }),
+    });
+  } catch (error) {
+    console.error('Error queueing stock alert:', error);
+  }
+}
 
-      // Fallback sale price patterns if the specific one doesn't match
-      if (!sale_price) {
-        const fallbackSalePricePatterns = [
-          /<span[^>]*itemprop="price"[^>]*>₹([0-9,]+)<\/span>/gi,
-          /<span[^>]*class="[^"]*h1[^"]*"[^>]*>₹([0-9,]+)<\/span>/gi,
-          /"price"[^:]*:\s*"?₹?\s*([0-9,]+)"?/gi,
-          /class="[^"]*price[^"]*"[^>]*>₹\s*([0-9,]+)/gi,
-        ];
-
-        for (const pattern of fallbackSalePricePatterns) {
-          const match = pattern.exec(html);
-          if (match) {
-            const price = parseInt(match[1].replace(/,/g, ''));
-            if (price > 0 && price < 2000000) {
-              sale_price = price;
-              break;
-            }
-          }
-        }
-      }
-    }
+interface AlertRow extends AlertRule, AlertSchedule {
+  id: string;
+  user_id: string;
+  trigger_count: number;
+  products: { title: string; url: string };
+}
 
-    // Extract discount using the specific element you provided
-    let discount = '0%';
-    if (!isOutOfStock) {
-      const discountPattern = /<div[^>]*class="[^"]*h1[^"]*text-error[^"]*"[^>]*>-<!--\s*-->([0-9]+)<!--\s*-->%<\/div>/i;
-      const discountMatch = html.match(discountPattern);
-      if (discountMatch) {
-        discount = `${discountMatch[1]}%`;
-      }
+async function fetchActiveAlerts(supabase: SupabaseClient, productId: string): Promise<AlertRow[]> {
+  const { data: alerts, error } = await supabase
+    .from('price_alerts')
+    .select(`
+      *,
+      products!inner(title, url)
+    `)
+    .eq('product_id', productId)
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Error fetching alerts:', error);
+    return [];
+  }
 
-      // Fallback discount patterns if the specific one doesn't match
-      if (discount === '0%') {
-        const fallbackDiscountPatterns = [
-          /<div[^>]*text-error[^>]*>-[^0-9]*([0-9]+)[^0-9]*%<\/div>/gi,
-          /([0-9]+)%\s*OFF/gi,
-          /([0-9]+)%\s*off/gi,
-          /-([0-9]+)%/gi,
-        ];
-
-        for (const pattern of fallbackDiscountPatterns) {
-          const match = pattern.exec(html);
-          if (match) {
-            discount = `${match[1]}%`;
-            break;
-          }
-        }
-      }
+  return alerts || [];
+}
 
-      // If no discount found but we have both prices, calculate it
-      if (discount === '0%' && mrp > 0 && sale_price > 0 && mrp > sale_price) {
-        const discountPercent = Math.round(((mrp - sale_price) / mrp) * 100);
-        discount = `${discountPercent}%`;
-      }
-    }
+async function checkPriceAlerts(
+  supabase: SupabaseClient,
+  product: ProductRow,
+  alerts: AlertRow[],
+  observation: Omit<PriceObservation, 'allTimeLow'>,
+  checkedAt: string,
+) {
+  if (alerts.length === 0) {
+    return;
+  }
 
-    // Extract detailed product information from the body element
-    let condition = 'Good'; // Default
-    let storage = '';
-    let ram = '';
-    let color = '';
-
-    // Look for the specific body element pattern you provided
-    const bodyPattern = /<div[^>]*class="[^"]*body2[^"]*mb-2[^"]*text-surface-text[^"]*"[^>]*>([^<]+)<\/div>/i;
-    const bodyMatch = html.match(bodyPattern);
-    
-    if (bodyMatch) {
-      const bodyText = bodyMatch[1].trim();
-      console.log('Found body text:', bodyText);
-      
-      // Parse the body text: "Cashify Warranty, Fair, 6 GB / 128 GB, Pacific Blue"
-      const parts = bodyText.split(',').map(part => part.trim());
-      
-      if (parts.length >= 2) {
-        // Second part is usually the condition
-        const conditionPart = parts[1];
-        if (['Fair', 'Good', 'Excellent', 'Superb'].some(c => conditionPart.toLowerCase().includes(c.toLowerCase()))) {
-          condition = conditionPart;
-        }
-      }
-      
-      if (parts.length >= 3) {
-        // Third part is usually RAM/Storage: "6 GB / 128 GB"
-        const storagePart = parts[2];
-        const storageMatch = storagePart.match(/(\d+\s*GB)\s*\/\s*(\d+\s*[GT]B)/i);
-        if (storageMatch) {
-          ram = storageMatch[1].trim();
-          storage = storageMatch[2].trim();
-        } else {
-          // Fallback: look for any storage pattern
-          const fallbackStorageMatch = storagePart.match(/(\d+\s*[GT]B)/i);
-          if (fallbackStorageMatch) {
-            storage = fallbackStorageMatch[1].trim();
-          }
-        }
-      }
-      
-      if (parts.length >= 4) {
-        // Fourth part is usually the color
-        color = parts[3];
-      }
+  try {
+    // The all-time low excludes this check, which has already been recorded
+    let allTimeLow: number | null = null;
+    if (alerts.some(alert => alert.rule_type === 'all_time_low')) {
+      const { data: lowestPoint } = await supabase
+        .from('price_points')
+        .select('price')
+        .eq('listing_id', product.listing_id)
+        .eq('in_stock', true)
+        .not('price', 'is', null)
+        .lt('checked_at', checkedAt)
+        .order('price', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      allTimeLow = lowestPoint ? Number(lowestPoint.price) : null;
     }
 
-    // Fallback condition extraction if not found in body
-    if (condition === 'Good') {
-      const conditionPatterns = [
-        /Cashify Warranty[^,]*,\s*([^,]+)/i,
-        /"condition"[^:]*:\s*"([^"]+)"/i,
-        /(Fair|Good|Excellent|Superb)/gi,
-        /Condition[^>]*>([^<]+)</i,
-        /Grade[^>]*>([^<]+)</i,
-      ];
-
-      for (const pattern of conditionPatterns) {
-        const match = html.match(pattern);
-        if (match) {
-          condition = match[1].trim();
-          // Normalize condition values
-          if (condition.toLowerCase().includes('fair')) condition = 'Fair';
-          else if (condition.toLowerCase().includes('good')) condition = 'Good';
-          else if (condition.toLowerCase().includes('excellent')) condition = 'Excellent';
-          else if (condition.toLowerCase().includes('superb')) condition = 'Superb';
-          break;
-        }
-      }
-    }
+    const now = new Date(checkedAt);
 
-    // Fallback storage extraction if not found in body
-    if (!storage) {
-      const storagePatterns = [
-        /(\d+\s*GB)/gi,
-        /(\d+\s*TB)/gi,
-        /Storage[^>]*>([^<]*\d+[^<]*[GT]B[^<]*)</i,
-        /Memory[^>]*>([^<]*\d+[^<]*[GT]B[^<]*)</i
-      ];
-
-      // First try to extract from title
-      for (const pattern of storagePatterns) {
-        const matches = title.match(pattern);
-        if (matches) {
-          storage = matches[0].trim();
-          break;
-        }
-      }
+    // Queue a notification per triggered alert. The sender resolves the
+    // recipient and deactivates one-off alerts once the email is delivered;
+    // until then the dedupe key stops later checks from queueing it again.
+    for (const alert of alerts) {
+      const reason = evaluateAlertRule(alert, { ...observation, allTimeLow });
+      const action = nextAlertAction(alert, reason !== null, now);
 
-      // If not found in title, search in HTML
-      if (!storage) {
-        for (const pattern of storagePatterns) {
-          const matches = html.match(pattern);
-          if (matches) {
-            const storageValues = matches.map(m => m.trim()).filter(s => s.length < 20);
-            if (storageValues.length > 0) {
-              storage = storageValues[0];
-              break;
+      try {
+        if (action === 'rearm') {
+          await supabase
+            .from('price_alerts')
+            .update({ is_armed: true, updated_at: checkedAt })
+            .eq('id', alert.id);
+        } else if (action === 'notify') {
+          // Claim the trigger first; `trigger_count` acts as a version so a
+          // concurrent check that already fired this alert wins.
+          const { data: claimed, error: claimError } = await supabase
+            .from('price_alerts')
+            .update({
+              is_armed: staysArmedAfterTrigger(alert),
+              last_triggered_at: checkedAt,
+              trigger_count: alert.trigger_count + 1,
+              updated_at: checkedAt,
+            })
+            .eq('id', alert.id)
+            .eq('is_armed', true)
+            .eq('trigger_count', alert.trigger_count)
+            .select('id')
+            .maybeSingle();
+
+          if (claimError) throw claimError;
+          if (!claimed) continue;
+
+          let notificationId: string | null = null;
+          try {
+            notificationId = await enqueueNotification(supabase, {
+              userId: alert.user_id,
+              kind: 'price_alert',
+              productId: product.id,
+              alertId: alert.id,
+              dedupeKey: `price_alert:${alert.id}`,
+              content: priceAlertEmail(
+                alert.products,
+                observation.price,
+                describeAlertRule(alert),
+                reason!,
+                alert.mode === 'recurring',
+              ),
+            });
+          } finally {
+            // Nothing was queued (an earlier email is still pending, or the
+            // insert failed), so hand the trigger back, unless the alert was
+            // triggered again or edited since it was claimed
+            if (!notificationId) {
+              await supabase
+                .from('price_alerts')
+                .update({
+                  is_armed: alert.is_armed,
+                  last_triggered_at: alert.last_triggered_at,
+                  trigger_count: alert.trigger_count,
+                })
+                .eq('id', alert.id)
+                .eq('trigger_count', alert.trigger_count + 1)
+                .eq('updated_at', checkedAt);
             }
           }
         }
+      } catch (queueError) {
+        console.error('Error queueing price alert:', queueError);
       }
     }
-
-    // Extract image URL
-    let image_url = '';
-    const imagePatterns = [
-      /<img[^>]+src=["']([^"']*product[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
-      /<img[^>]+src=["']([^"']*mobile[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
-      /<img[^>]+src=["']([^"']*phone[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
-      /<img[^>]+src=["']([^"']*iphone[^"']*\.(?:jpg|jpeg|png|webp))[^"']*["']/i,
-      /<img[^>]+src=["']([^"']*\.(?:jpg|jpeg|png|webp))[^"']*["'][^>]*alt="[^"]*product[^"]*"/i
-    ];
-
-    for (const pattern of imagePatterns) {
-      const match = html.match(pattern);
-      if (match) {
-        image_url = match[1];
-        if (!image_url.startsWith('http')) {
-          image_url = new URL(image_url, url).href;
-        }
-        break;
-      }
-    }
-
-    // Clean up title
-    title = title.replace(/\s*-\s*Cashify.*$/i, '').replace(/\s+/g, ' ').trim();
-    if (title.length > 100) {
-      title = title.substring(0, 100) + '...';
-    }
-
-    // Combine RAM and storage for the storage field if both are available
-    let finalStorage = storage;
-    if (ram && storage) {
-      finalStorage = `${ram} / ${storage}`;
-    } else if (ram && !storage) {
-      finalStorage = ram;
-    }
-
-    // For out of stock products, use fallback prices if needed
-    if (isOutOfStock) {
-      if (!mrp && !sale_price) {
-        mrp = 50000;
-        sale_price = 45000;
-      } else if (!sale_price) {
-        sale_price = mrp || 45000;
-      } else if (!mrp) {
-        mrp = sale_price + 5000;
-      }
-    }
-
-    // Ensure we have valid data
-    if (!mrp && !sale_price) {
-      throw new Error('Could not extract price information from the page');
-    }
-
-    return {
-      title: title || 'Cashify Product',
-      mrp: mrp || sale_price || 50000,
-      sale_price: sale_price || mrp || 45000,
-      discount,
-      condition,
-      storage: finalStorage || '128GB',
-      ram,
-      color,
-      image_url: image_url || undefined,
-      is_out_of_stock: isOutOfStock
-    };
-
   } catch (error) {
-    console.error('Scraping error:', error);
-    throw error;
+    console.error('Error checking price alerts:', error);
   }
-}
\ No newline at end of file
+}
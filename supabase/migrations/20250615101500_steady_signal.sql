@@ -0,0 +1,33 @@
+/*
+  # Record the outcome of each price check
+
+  1. New Columns
+    - Add `last_check_status` column to products table
+      (`success`, `partial` or `failed`)
+    - Add `last_check_error` column to products table
+      (failure reason code from the scraper, e.g. `BLOCKED`, `PRICE_NOT_FOUND`)
+
+  2. Notes
+    - A failed check no longer overwrites prices; it only updates
+      `last_checked` and these two columns
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'last_check_status'
+  ) THEN
+    ALTER TABLE products ADD COLUMN last_check_status text DEFAULT 'success';
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'last_check_error'
+  ) THEN
+    ALTER TABLE products ADD COLUMN last_check_error text;
+  END IF;
+END $$;
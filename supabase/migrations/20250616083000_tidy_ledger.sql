@@ -0,0 +1,77 @@
+/*
+  # Move price history into a normalized table
+
+  1. New Tables
+    - `price_points`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key to products)
+      - `price` (numeric, sale price at the time of the check)
+      - `mrp` (numeric, maximum retail price at the time of the check)
+      - `in_stock` (boolean, stock status at the time of the check)
+      - `checked_at` (timestamptz, when the price was observed)
+      - `source` (text, `initial`, `scheduled`, `manual` or `backfill`)
+
+  2. Data Migration
+    - Copy every entry of `products.price_history` into `price_points`
+    - Drop the `price_history` column
+
+  3. Security
+    - Enable RLS on `price_points` table
+    - Users can manage price points of products they own, mirroring `products`
+*/
+
+CREATE TABLE IF NOT EXISTS price_points (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  price numeric,
+  mrp numeric,
+  in_stock boolean NOT NULL DEFAULT true,
+  checked_at timestamptz NOT NULL DEFAULT now(),
+  source text NOT NULL DEFAULT 'scheduled'
+);
+
+-- Backfill from the jsonb history; older entries never recorded MRP or stock
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'price_history'
+  ) THEN
+    INSERT INTO price_points (product_id, price, in_stock, checked_at, source)
+    SELECT
+      p.id,
+      (entry->>'price')::numeric,
+      true,
+      (entry->>'checked_at')::timestamptz,
+      'backfill'
+    FROM products p
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(p.price_history, '[]'::jsonb)) AS entry
+    WHERE entry ? 'price' AND entry ? 'checked_at';
+
+    ALTER TABLE products DROP COLUMN price_history;
+  END IF;
+END $$;
+
+-- Enable Row Level Security
+ALTER TABLE price_points ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for price_points
+CREATE POLICY "Users can manage price points of their own products"
+  ON price_points
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = price_points.product_id AND products.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = price_points.product_id AND products.user_id = auth.uid()
+    )
+  );
+
+-- Range queries are always per product and by time
+CREATE INDEX IF NOT EXISTS price_points_product_checked_at_idx ON price_points(product_id, checked_at DESC);
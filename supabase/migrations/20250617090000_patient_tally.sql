@@ -0,0 +1,90 @@
+/*
+  # Record every price check
+
+  1. New Columns on `price_points`
+    - `discount` (numeric, discount percentage shown at the time of the check)
+    - `outcome` (text, `success`, `partial` or `failed`)
+    - `failure_reason` (text, scraper reason code for failed checks)
+    - `last_checked_at` (timestamptz, when this observation was last confirmed)
+    - `check_count` (integer, how many consecutive checks saw this observation)
+
+  2. Changes
+    - `price` and `in_stock` become nullable: a failed check knows neither
+    - Each row is now a run of identical consecutive observations, from
+      `checked_at` to `last_checked_at`, so an unchanged price checked hourly
+      for weeks stays a single row while still proving the checks happened
+
+  3. New Functions
+    - `record_price_check` extends the latest run when the observation is
+      unchanged, otherwise starts a new one
+*/
+
+ALTER TABLE price_points ALTER COLUMN in_stock DROP NOT NULL;
+ALTER TABLE price_points ALTER COLUMN in_stock DROP DEFAULT;
+
+ALTER TABLE price_points ADD COLUMN IF NOT EXISTS discount numeric;
+ALTER TABLE price_points ADD COLUMN IF NOT EXISTS outcome text NOT NULL DEFAULT 'success';
+ALTER TABLE price_points ADD COLUMN IF NOT EXISTS failure_reason text;
+ALTER TABLE price_points ADD COLUMN IF NOT EXISTS last_checked_at timestamptz;
+ALTER TABLE price_points ADD COLUMN IF NOT EXISTS check_count integer NOT NULL DEFAULT 1;
+
+UPDATE price_points SET last_checked_at = checked_at WHERE last_checked_at IS NULL;
+
+ALTER TABLE price_points ALTER COLUMN last_checked_at SET NOT NULL;
+ALTER TABLE price_points ALTER COLUMN last_checked_at SET DEFAULT now();
+
+-- Range queries select every run that overlaps the window
+CREATE INDEX IF NOT EXISTS price_points_product_last_checked_at_idx ON price_points(product_id, last_checked_at DESC);
+
+CREATE OR REPLACE FUNCTION record_price_check(
+  p_product_id uuid,
+  p_price numeric,
+  p_mrp numeric,
+  p_discount numeric,
+  p_in_stock boolean,
+  p_outcome text,
+  p_failure_reason text,
+  p_source text,
+  p_checked_at timestamptz DEFAULT now()
+) RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  latest price_points%ROWTYPE;
+  point_id uuid;
+BEGIN
+  SELECT * INTO latest
+  FROM price_points
+  WHERE product_id = p_product_id
+  ORDER BY checked_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND
+    AND latest.price IS NOT DISTINCT FROM p_price
+    AND latest.mrp IS NOT DISTINCT FROM p_mrp
+    AND latest.discount IS NOT DISTINCT FROM p_discount
+    AND latest.in_stock IS NOT DISTINCT FROM p_in_stock
+    AND latest.outcome = p_outcome
+    AND latest.failure_reason IS NOT DISTINCT FROM p_failure_reason
+  THEN
+    UPDATE price_points
+    SET last_checked_at = p_checked_at,
+        check_count = check_count + 1
+    WHERE id = latest.id;
+
+    RETURN latest.id;
+  END IF;
+
+  INSERT INTO price_points (
+    product_id, price, mrp, discount, in_stock, outcome, failure_reason,
+    source, checked_at, last_checked_at
+  ) VALUES (
+    p_product_id, p_price, p_mrp, p_discount, p_in_stock, p_outcome, p_failure_reason,
+    p_source, p_checked_at, p_checked_at
+  )
+  RETURNING id INTO point_id;
+
+  RETURN point_id;
+END;
+$$;
@@ -0,0 +1,129 @@
+/*
+  # Add Notification Outbox
+
+  1. New Tables
+    - `notification_outbox`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users, the recipient)
+      - `recipient` (text, email address; resolved at send time when null)
+      - `kind` (text, `tracking_confirmation`, `price_alert` or `stock_alert`)
+      - `subject` (text)
+      - `html` (text)
+      - `product_id` (uuid, foreign key to products)
+      - `alert_id` (uuid, foreign key to price_alerts, deactivated once sent)
+      - `dedupe_key` (text, at most one undelivered notification per key)
+      - `status` (text, `pending`, `sending`, `sent` or `failed`)
+      - `attempts` (integer, delivery attempts so far)
+      - `max_attempts` (integer, attempts before giving up)
+      - `last_error` (text, error from the last failed attempt)
+      - `next_attempt_at` (timestamptz, earliest time of the next attempt)
+      - `sent_at` (timestamptz)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. New Functions
+    - `enqueue_notification` inserts a notification unless an undelivered one
+      with the same `dedupe_key` already exists
+    - `claim_notifications` locks a batch of due notifications for sending
+
+  3. Scheduling
+    - Cron job calling the `send-notifications` edge function every minute
+
+  4. Security
+    - Enable RLS on `notification_outbox` with no policies: only the service
+      role reads or writes it
+*/
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  recipient text,
+  kind text NOT NULL,
+  subject text NOT NULL,
+  html text NOT NULL,
+  product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  alert_id uuid REFERENCES price_alerts(id) ON DELETE SET NULL,
+  dedupe_key text,
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  last_error text,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS notification_outbox_due_idx
+  ON notification_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+CREATE UNIQUE INDEX IF NOT EXISTS notification_outbox_undelivered_dedupe_idx
+  ON notification_outbox(dedupe_key)
+  WHERE status IN ('pending', 'sending');
+
+CREATE OR REPLACE FUNCTION enqueue_notification(
+  p_user_id uuid,
+  p_kind text,
+  p_subject text,
+  p_html text,
+  p_recipient text DEFAULT NULL,
+  p_product_id uuid DEFAULT NULL,
+  p_alert_id uuid DEFAULT NULL,
+  p_dedupe_key text DEFAULT NULL
+) RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  notification_id uuid;
+BEGIN
+  INSERT INTO notification_outbox (
+    user_id, kind, subject, html, recipient, product_id, alert_id, dedupe_key
+  ) VALUES (
+    p_user_id, p_kind, p_subject, p_html, p_recipient, p_product_id, p_alert_id, p_dedupe_key
+  )
+  ON CONFLICT (dedupe_key) WHERE status IN ('pending', 'sending') DO NOTHING
+  RETURNING id INTO notification_id;
+
+  RETURN notification_id;
+END;
+$$;
+
+-- Rows left in `sending` by a crashed sender are reclaimed after 10 minutes
+CREATE OR REPLACE FUNCTION claim_notifications(p_limit integer DEFAULT 50)
+RETURNS SETOF notification_outbox
+LANGUAGE sql
+AS $$
+  UPDATE notification_outbox
+  SET status = 'sending',
+      attempts = attempts + 1,
+      updated_at = now()
+  WHERE id IN (
+    SELECT id FROM notification_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+       OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+SELECT cron.schedule(
+  'send-notifications',
+  '* * * * *', -- Run every minute
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.supabase_url') || '/functions/v1/send-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
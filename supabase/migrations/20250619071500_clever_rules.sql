@@ -0,0 +1,41 @@
+/*
+  # Add Price Alert Rule Types
+
+  1. New Columns
+    - `price_alerts.rule_type` (text, what the alert watches for)
+      - `target_price`: price at or below `target_price`
+      - `percent_drop`: price at least `threshold` percent below `baseline_price`
+      - `all_time_low`: price below every earlier in-stock price
+      - `discount_above`: discount of at least `threshold` percent
+      - `any_change`: price differs from the previous check
+      - `price_above`: price above `threshold`
+    - `price_alerts.threshold` (numeric, percentage or price depending on the rule)
+    - `price_alerts.baseline_price` (numeric, price when a `percent_drop` alert was set)
+
+  2. Modified Columns
+    - `price_alerts.target_price` is nullable, only `target_price` rules use it
+
+  3. Constraints
+    - Each rule type must carry the values it needs
+*/
+
+ALTER TABLE price_alerts
+  ADD COLUMN IF NOT EXISTS rule_type text NOT NULL DEFAULT 'target_price',
+  ADD COLUMN IF NOT EXISTS threshold numeric,
+  ADD COLUMN IF NOT EXISTS baseline_price numeric;
+
+ALTER TABLE price_alerts ALTER COLUMN target_price DROP NOT NULL;
+
+ALTER TABLE price_alerts
+  ADD CONSTRAINT price_alerts_rule_type_check CHECK (
+    rule_type IN ('target_price', 'percent_drop', 'all_time_low', 'discount_above', 'any_change', 'price_above')
+  ),
+  ADD CONSTRAINT price_alerts_rule_values_check CHECK (
+    CASE rule_type
+      WHEN 'target_price' THEN target_price IS NOT NULL
+      WHEN 'percent_drop' THEN threshold IS NOT NULL AND baseline_price IS NOT NULL
+      WHEN 'discount_above' THEN threshold IS NOT NULL
+      WHEN 'price_above' THEN threshold IS NOT NULL
+      ELSE true
+    END
+  );
@@ -0,0 +1,27 @@
+/*
+  # Add Recurring Price Alerts
+
+  1. New Columns
+    - `price_alerts.mode` (text, `once` deactivates after the first delivered
+      notification, `recurring` keeps notifying)
+    - `price_alerts.rearm` (text, when a triggered alert may fire again)
+      - `on_reset`: once its condition has stopped holding
+      - `after_cooldown`: as soon as the cooldown has passed
+    - `price_alerts.cooldown_minutes` (integer, minimum time between notifications)
+    - `price_alerts.is_armed` (boolean, false after triggering until re-armed)
+    - `price_alerts.last_triggered_at` (timestamptz)
+    - `price_alerts.trigger_count` (integer, notifications queued so far)
+*/
+
+ALTER TABLE price_alerts
+  ADD COLUMN IF NOT EXISTS mode text NOT NULL DEFAULT 'once',
+  ADD COLUMN IF NOT EXISTS rearm text NOT NULL DEFAULT 'on_reset',
+  ADD COLUMN IF NOT EXISTS cooldown_minutes integer NOT NULL DEFAULT 60,
+  ADD COLUMN IF NOT EXISTS is_armed boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS last_triggered_at timestamptz,
+  ADD COLUMN IF NOT EXISTS trigger_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE price_alerts
+  ADD CONSTRAINT price_alerts_mode_check CHECK (mode IN ('once', 'recurring')),
+  ADD CONSTRAINT price_alerts_rearm_check CHECK (rearm IN ('on_reset', 'after_cooldown')),
+  ADD CONSTRAINT price_alerts_cooldown_check CHECK (cooldown_minutes >= 0);
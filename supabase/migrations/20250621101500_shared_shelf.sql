@@ -0,0 +1,165 @@
+/*
+  # Share listings between users
+
+  1. New Tables
+    - `listings`
+      - `id` (uuid, primary key)
+      - `canonical_url` (text, unique, normalized product page URL)
+      - `created_at` (timestamptz)
+
+  2. New Columns
+    - `products.listing_id` (uuid, foreign key to listings): every user's
+      product row points at the listing it tracks
+    - `price_points.listing_id` (uuid, foreign key to listings)
+
+  3. Data Migration
+    - One listing per distinct canonical URL among existing products
+    - Price points move from products to listings. Where several users tracked
+      the same listing, the history of the earliest tracker is kept
+    - `price_points.product_id` is dropped: a check is recorded once per
+      listing and shared by all its trackers
+
+  4. Changed Functions
+    - `record_price_check` takes `p_listing_id` instead of `p_product_id`
+
+  5. Security
+    - Enable RLS on `listings` table
+    - Users can read listings and price points of listings they track; only
+      the service role writes them
+*/
+
+CREATE TABLE IF NOT EXISTS listings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  canonical_url text UNIQUE NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS listing_id uuid REFERENCES listings(id);
+ALTER TABLE price_points ADD COLUMN IF NOT EXISTS listing_id uuid REFERENCES listings(id) ON DELETE CASCADE;
+
+-- Same normalization as `canonicalizeUrl` in supabase/functions/_shared/urls.ts
+CREATE FUNCTION pg_temp.canonical_listing_url(url text) RETURNS text
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT 'https://'
+    || lower(substring(url FROM '^[a-zA-Z]+://([^/?#]+)'))
+    || regexp_replace(coalesce(substring(url FROM '^[a-zA-Z]+://[^/?#]+([^?#]*)'), ''), '/+$', '');
+$$;
+
+INSERT INTO listings (canonical_url)
+SELECT DISTINCT pg_temp.canonical_listing_url(url) FROM products
+ON CONFLICT (canonical_url) DO NOTHING;
+
+UPDATE products
+SET listing_id = listings.id
+FROM listings
+WHERE listings.canonical_url = pg_temp.canonical_listing_url(products.url)
+  AND products.listing_id IS NULL;
+
+ALTER TABLE products ALTER COLUMN listing_id SET NOT NULL;
+
+-- Keep the history of the first product that tracked each listing
+DELETE FROM price_points
+USING products
+WHERE products.id = price_points.product_id
+  AND EXISTS (
+    SELECT 1 FROM products earlier
+    WHERE earlier.listing_id = products.listing_id
+      AND (earlier.created_at, earlier.id) < (products.created_at, products.id)
+  );
+
+UPDATE price_points
+SET listing_id = products.listing_id
+FROM products
+WHERE products.id = price_points.product_id;
+
+ALTER TABLE price_points ALTER COLUMN listing_id SET NOT NULL;
+
+DROP POLICY IF EXISTS "Users can manage price points of their own products" ON price_points;
+ALTER TABLE price_points DROP COLUMN product_id;
+
+-- Enable Row Level Security
+ALTER TABLE listings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for listings and price_points
+CREATE POLICY "Users can view listings they track"
+  ON listings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE products.listing_id = listings.id AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view price points of listings they track"
+  ON price_points
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE products.listing_id = price_points.listing_id AND products.user_id = auth.uid()
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS products_listing_id_idx ON products(listing_id);
+CREATE INDEX IF NOT EXISTS price_points_listing_checked_at_idx ON price_points(listing_id, checked_at DESC);
+CREATE INDEX IF NOT EXISTS price_points_listing_last_checked_at_idx ON price_points(listing_id, last_checked_at DESC);
+
+DROP FUNCTION IF EXISTS record_price_check(uuid, numeric, numeric, numeric, boolean, text, text, text, timestamptz);
+
+CREATE OR REPLACE FUNCTION record_price_check(
+  p_listing_id uuid,
+  p_price numeric,
+  p_mrp numeric,
+  p_discount numeric,
+  p_in_stock boolean,
+  p_outcome text,
+  p_failure_reason text,
+  p_source text,
+  p_checked_at timestamptz DEFAULT now()
+) RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  latest price_points%ROWTYPE;
+  point_id uuid;
+BEGIN
+  SELECT * INTO latest
+  FROM price_points
+  WHERE listing_id = p_listing_id
+  ORDER BY checked_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND
+    AND latest.price IS NOT DISTINCT FROM p_price
+    AND latest.mrp IS NOT DISTINCT FROM p_mrp
+    AND latest.discount IS NOT DISTINCT FROM p_discount
+    AND latest.in_stock IS NOT DISTINCT FROM p_in_stock
+    AND latest.outcome = p_outcome
+    AND latest.failure_reason IS NOT DISTINCT FROM p_failure_reason
+  THEN
+    UPDATE price_points
+    SET last_checked_at = p_checked_at,
+        check_count = check_count + 1
+    WHERE id = latest.id;
+
+    RETURN latest.id;
+  END IF;
+
+  INSERT INTO price_points (
+    listing_id, price, mrp, discount, in_stock, outcome, failure_reason,
+    source, checked_at, last_checked_at
+  ) VALUES (
+    p_listing_id, p_price, p_mrp, p_discount, p_in_stock, p_outcome, p_failure_reason,
+    p_source, p_checked_at, p_checked_at
+  )
+  RETURNING id INTO point_id;
+
+  RETURN point_id;
+END;
+$$;
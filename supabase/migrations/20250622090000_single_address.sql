@@ -0,0 +1,91 @@
+/*
+  # Canonical Cashify URLs
+
+  1. New Columns
+    - `products.canonical_url` (text, normalized product page URL, see
+      `parseCashifyUrl` in supabase/functions/_shared/urls.ts)
+
+  2. Data Migration
+    - Listing URLs are re-normalized: `cashify.in` and `m.cashify.in` become
+      `www.cashify.in`, paths are lowercased and repeated slashes collapsed.
+      Listings that now share a URL are merged into the oldest one, keeping
+      its history
+    - A user's products that now share a URL are merged into the oldest one;
+      alerts of the removed rows move to the kept row
+
+  3. Constraints
+    - Unique index on `products(user_id, canonical_url)`
+*/
+
+CREATE FUNCTION pg_temp.canonical_cashify_url(url text) RETURNS text
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT 'https://'
+    || CASE
+         WHEN lower(substring(url FROM '^[a-zA-Z]+://([^/?#:]+)')) IN ('cashify.in', 'www.cashify.in', 'm.cashify.in')
+           THEN 'www.cashify.in'
+         ELSE lower(substring(url FROM '^[a-zA-Z]+://([^/?#]+)'))
+       END
+    || regexp_replace(
+         regexp_replace(lower(coalesce(substring(url FROM '^[a-zA-Z]+://[^/?#]+([^?#]*)'), '')), '/{2,}', '/', 'g'),
+         '/+$', ''
+       );
+$$;
+
+-- Merge listings that normalize to the same URL
+CREATE TEMP TABLE listing_merges ON COMMIT DROP AS
+SELECT
+  id,
+  new_url,
+  first_value(id) OVER (PARTITION BY new_url ORDER BY created_at, id) AS keeper_id
+FROM (
+  SELECT id, created_at, pg_temp.canonical_cashify_url(canonical_url) AS new_url
+  FROM listings
+) normalized;
+
+-- Histories of merged listings would interleave, so only the keeper's stays
+DELETE FROM price_points
+USING listing_merges m
+WHERE price_points.listing_id = m.id AND m.id <> m.keeper_id;
+
+UPDATE products
+SET listing_id = m.keeper_id
+FROM listing_merges m
+WHERE products.listing_id = m.id AND m.id <> m.keeper_id;
+
+DELETE FROM listings
+USING listing_merges m
+WHERE listings.id = m.id AND m.id <> m.keeper_id;
+
+UPDATE listings
+SET canonical_url = m.new_url
+FROM listing_merges m
+WHERE listings.id = m.id AND listings.canonical_url <> m.new_url;
+
+-- Denormalize the URL onto products for the per-user uniqueness check
+ALTER TABLE products ADD COLUMN IF NOT EXISTS canonical_url text;
+
+UPDATE products
+SET canonical_url = listings.canonical_url
+FROM listings
+WHERE listings.id = products.listing_id;
+
+ALTER TABLE products ALTER COLUMN canonical_url SET NOT NULL;
+
+-- Merge a user's duplicate products into the one tracked first
+CREATE TEMP TABLE product_merges ON COMMIT DROP AS
+SELECT
+  id,
+  first_value(id) OVER (PARTITION BY user_id, canonical_url ORDER BY created_at, id) AS keeper_id
+FROM products;
+
+UPDATE price_alerts
+SET product_id = m.keeper_id
+FROM product_merges m
+WHERE price_alerts.product_id = m.id AND m.id <> m.keeper_id;
+
+DELETE FROM products
+USING product_merges m
+WHERE products.id = m.id AND m.id <> m.keeper_id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS products_user_canonical_url_idx ON products(user_id, canonical_url);
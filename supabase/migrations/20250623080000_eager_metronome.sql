@@ -0,0 +1,94 @@
+/*
+  # Adaptive check scheduling
+
+  1. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, foreign key to auth.users)
+      - `tier` (text, `free` or `pro`, sets the base check interval)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. New Columns
+    - `products.next_check_at` (timestamptz, when `update-prices` should next
+      check the product; computed after every check)
+
+  3. New Functions
+    - `handle_new_user` creates a profile for every new auth user
+
+  4. Scheduling
+    - `update-product-prices` now runs every 10 minutes and checks the most
+      overdue products instead of everything older than an hour
+
+  5. Security
+    - Enable RLS on `profiles` table
+    - Users can view their own profile; the tier is managed by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  tier text NOT NULL DEFAULT 'free' CHECK (tier IN ('free', 'pro')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for profiles
+CREATE POLICY "Users can view their own profile"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = id);
+
+INSERT INTO profiles (id)
+SELECT id FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id) VALUES (NEW.id)
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Existing products keep their hourly rhythm until their next check
+ALTER TABLE products ADD COLUMN IF NOT EXISTS next_check_at timestamptz;
+
+UPDATE products
+SET next_check_at = COALESCE(last_checked, now()) + interval '1 hour'
+WHERE next_check_at IS NULL;
+
+ALTER TABLE products ALTER COLUMN next_check_at SET NOT NULL;
+ALTER TABLE products ALTER COLUMN next_check_at SET DEFAULT now();
+
+-- Create index for better performance
+CREATE INDEX IF NOT EXISTS products_next_check_at_idx ON products(next_check_at);
+
+-- Run often enough for the shortest check interval
+SELECT cron.unschedule('update-product-prices');
+
+SELECT cron.schedule(
+  'update-product-prices',
+  '*/10 * * * *', -- Run every 10 minutes
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.supabase_url') || '/functions/v1/update-prices',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
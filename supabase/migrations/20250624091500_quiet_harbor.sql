@@ -0,0 +1,18 @@
+/*
+  # Back off and pause failing products
+
+  1. New Columns
+    - `products.consecutive_failures` (integer, failed checks since the last
+      successful one; each doubles the wait before the next check)
+    - `products.paused_at` (timestamptz, set once a product has failed too many
+      times in a row; paused products are skipped by scheduled runs until a
+      manual retry or a successful check of the same listing)
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS consecutive_failures integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS paused_at timestamptz;
+
+-- Scheduled runs only look at products that are not paused
+DROP INDEX IF EXISTS products_next_check_at_idx;
+CREATE INDEX IF NOT EXISTS products_next_check_at_idx ON products(next_check_at) WHERE paused_at IS NULL;
@@ -0,0 +1,113 @@
+/*
+  # Scrape run log
+
+  1. New Tables
+    - `scrape_runs`
+      - `id` (uuid, primary key)
+      - `trigger` (text, `scheduled` or `manual`)
+      - `started_at` (timestamptz)
+      - `finished_at` (timestamptz, null while running or if the run crashed)
+      - `duration_ms` (integer)
+      - `listings_attempted` (integer, listings actually scraped)
+      - `products_attempted` (integer, product rows those checks were applied to)
+      - `products_succeeded` (integer)
+      - `products_failed` (integer)
+      - `failures_by_reason` (jsonb, failed products keyed by reason)
+      - `remaining` (integer, due products left for the next run)
+      - `error` (text, set when the run itself failed)
+    - `scrape_attempts`
+      - `id` (uuid, primary key)
+      - `run_id` (uuid, foreign key to scrape_runs)
+      - `listing_id` (uuid, foreign key to listings)
+      - `url` (text, the page that was fetched)
+      - `products_count` (integer, product rows sharing the check)
+      - `status` (text, `success`, `partial` or `failed`)
+      - `failure_reason` (text, set for failed attempts)
+      - `sources` (jsonb, extraction strategy that produced each field)
+      - `missing` (text[], fields no strategy could extract)
+      - `duration_ms` (integer, time spent fetching and parsing)
+      - `attempted_at` (timestamptz)
+
+  2. New Columns
+    - `profiles.is_admin` (boolean, grants access to the scraper health page)
+
+  3. Retention
+    - `prune-scrape-log` deletes runs and attempts older than 30 days every night
+
+  4. Security
+    - Enable RLS on both tables
+    - Only admins can read them; `update-prices` writes with the service role
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS is_admin boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS scrape_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger text NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  duration_ms integer,
+  listings_attempted integer NOT NULL DEFAULT 0,
+  products_attempted integer NOT NULL DEFAULT 0,
+  products_succeeded integer NOT NULL DEFAULT 0,
+  products_failed integer NOT NULL DEFAULT 0,
+  failures_by_reason jsonb NOT NULL DEFAULT '{}'::jsonb,
+  remaining integer NOT NULL DEFAULT 0,
+  error text
+);
+
+CREATE TABLE IF NOT EXISTS scrape_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES scrape_runs(id) ON DELETE CASCADE,
+  listing_id uuid REFERENCES listings(id) ON DELETE SET NULL,
+  url text NOT NULL,
+  products_count integer NOT NULL DEFAULT 1,
+  status text NOT NULL CHECK (status IN ('success', 'partial', 'failed')),
+  failure_reason text,
+  sources jsonb NOT NULL DEFAULT '{}'::jsonb,
+  missing text[] NOT NULL DEFAULT '{}',
+  duration_ms integer NOT NULL,
+  attempted_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE scrape_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scrape_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for the scrape log
+CREATE POLICY "Admins can view scrape runs"
+  ON scrape_runs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin
+    )
+  );
+
+CREATE POLICY "Admins can view scrape attempts"
+  ON scrape_attempts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS scrape_runs_started_at_idx ON scrape_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS scrape_attempts_run_id_idx ON scrape_attempts(run_id);
+CREATE INDEX IF NOT EXISTS scrape_attempts_attempted_at_idx ON scrape_attempts(attempted_at DESC);
+
+SELECT cron.schedule(
+  'prune-scrape-log',
+  '30 3 * * *', -- Run every night at 03:30
+  $$
+  DELETE FROM scrape_runs WHERE started_at < now() - interval '30 days';
+  $$
+);
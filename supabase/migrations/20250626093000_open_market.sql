@@ -0,0 +1,15 @@
+/*
+  # Retailer per product
+
+  1. New Columns
+    - `products.retailer` (text, id of the retailer adapter that parses the
+      product's pages, e.g. `cashify`)
+
+  2. Notes
+    - Every existing product is a Cashify product
+    - Retailer ids are defined by the adapters in
+      `supabase/functions/_shared/retailers`, so there is deliberately no CHECK
+      constraint; adding a retailer needs no migration
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS retailer text NOT NULL DEFAULT 'cashify';
@@ -0,0 +1,29 @@
+/*
+  # Track individual variants of a listing
+
+  1. New Columns
+    - `listings.variant_key` (text, which variant of the page the listing
+      follows, see `variantKey` in supabase/functions/_shared/scraper.ts;
+      empty for whatever the page shows by default)
+    - `products.variant_key` (text, copy of the listing's key)
+
+  2. Constraints
+    - Listings are unique per `(canonical_url, variant_key)` instead of per
+      `canonical_url`, so each variant has its own price history
+    - A user's products are unique per `(user_id, canonical_url, variant_key)`,
+      so several variants of one page can be tracked side by side
+
+  3. Notes
+    - Existing listings and products keep an empty key and go on following
+      the page's default variant
+*/
+
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS variant_key text NOT NULL DEFAULT '';
+ALTER TABLE products ADD COLUMN IF NOT EXISTS variant_key text NOT NULL DEFAULT '';
+
+ALTER TABLE listings DROP CONSTRAINT IF EXISTS listings_canonical_url_key;
+ALTER TABLE listings ADD CONSTRAINT listings_canonical_url_variant_key_key UNIQUE (canonical_url, variant_key);
+
+DROP INDEX IF EXISTS products_user_canonical_url_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS products_user_canonical_url_variant_key_idx
+  ON products(user_id, canonical_url, variant_key);
@@ -0,0 +1,113 @@
+/*
+  # Per-user quotas
+
+  1. New Columns
+    - `profiles.max_products` (integer, products a user may track at once)
+    - `profiles.refreshes_per_hour` (integer, manual `update-prices` calls)
+    - `profiles.adds_per_day` (integer, products added through
+      `scrape-product`)
+    All three are null unless set for one user, in which case they override
+    the tier's default from supabase/functions/_shared/quotas.ts
+
+  2. New Tables
+    - `quota_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `kind` (text, `refresh` or `add`)
+      - `created_at` (timestamptz)
+
+  3. New Functions
+    - `consume_quota` records usage if it fits within a limit over a sliding
+      window, and otherwise reports how long until it would
+
+  4. Scheduling
+    - Cron job deleting quota events older than two days, daily
+
+  5. Security
+    - Enable RLS on `quota_events` table
+    - Users can view their own usage; only the service role records it
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS max_products integer CHECK (max_products >= 0);
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS refreshes_per_hour integer CHECK (refreshes_per_hour >= 0);
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS adds_per_day integer CHECK (adds_per_day >= 0);
+
+CREATE TABLE IF NOT EXISTS quota_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('refresh', 'add')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE quota_events ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for quota_events
+CREATE POLICY "Users can view their own quota usage"
+  ON quota_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Usage is always counted per user and kind over a recent window
+CREATE INDEX IF NOT EXISTS quota_events_user_kind_created_at_idx ON quota_events(user_id, kind, created_at DESC);
+
+/*
+  Uses `p_amount` of a user's quota if it fits within `p_limit` over the last
+  `p_window`. A `p_amount` of 0 checks that one more would fit without using
+  it. When it does not fit, `retry_after_seconds` is how long until enough
+  of the oldest events leave the window.
+*/
+CREATE OR REPLACE FUNCTION consume_quota(
+  p_user_id uuid,
+  p_kind text,
+  p_limit integer,
+  p_window interval,
+  p_amount integer DEFAULT 1
+) RETURNS TABLE (allowed boolean, used integer, retry_after_seconds integer)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  needed integer := GREATEST(p_amount, 1);
+  used_now integer;
+  freed_at timestamptz;
+BEGIN
+  -- Serialize concurrent requests of the same user, so rapid clicks cannot
+  -- all see the same count
+  PERFORM pg_advisory_xact_lock(hashtext('quota:' || p_user_id::text || ':' || p_kind));
+
+  SELECT count(*) INTO used_now
+  FROM quota_events
+  WHERE user_id = p_user_id AND kind = p_kind AND created_at > now() - p_window;
+
+  IF used_now + needed <= p_limit THEN
+    INSERT INTO quota_events (user_id, kind)
+    SELECT p_user_id, p_kind FROM generate_series(1, p_amount);
+
+    RETURN QUERY SELECT true, used_now + p_amount, 0;
+    RETURN;
+  END IF;
+
+  SELECT created_at + p_window INTO freed_at
+  FROM quota_events
+  WHERE user_id = p_user_id AND kind = p_kind AND created_at > now() - p_window
+  ORDER BY created_at
+  OFFSET GREATEST(used_now + needed - p_limit - 1, 0)
+  LIMIT 1;
+
+  -- More than the whole limit was asked for, or the limit is 0
+  IF freed_at IS NULL THEN
+    freed_at := now() + p_window;
+  END IF;
+
+  RETURN QUERY SELECT false, used_now, GREATEST(ceil(extract(epoch FROM freed_at - now()))::integer, 1);
+END;
+$$;
+
+SELECT cron.schedule(
+  'prune-quota-events',
+  '45 3 * * *', -- Run every night at 03:45
+  $$
+  DELETE FROM quota_events WHERE created_at < now() - interval '2 days';
+  $$
+);
@@ -0,0 +1,27 @@
+/*
+  # Realtime product updates
+
+  1. Realtime
+    - Publish changes to `products` and `price_alerts` on the
+      `supabase_realtime` publication, so the dashboard updates in place as
+      prices are checked and alerts fire
+
+  2. Security
+    - Realtime applies the existing RLS policies: subscribers only receive
+      inserts and updates of rows they can select. Deletes only carry the
+      primary key.
+*/
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['products', 'price_alerts'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,18 @@
+/*
+  # Unknown prices are null, not zero
+
+  1. Modified Columns
+    - `products.mrp` and `products.sale_price` are nullable with no default,
+      for products added while out of stock without a listed price
+
+  2. Data Migration
+    - Clear the zero placeholders stored for such products until now
+*/
+
+ALTER TABLE products ALTER COLUMN mrp DROP NOT NULL;
+ALTER TABLE products ALTER COLUMN mrp DROP DEFAULT;
+ALTER TABLE products ALTER COLUMN sale_price DROP NOT NULL;
+ALTER TABLE products ALTER COLUMN sale_price DROP DEFAULT;
+
+UPDATE products SET sale_price = NULL WHERE sale_price = 0;
+UPDATE products SET mrp = NULL WHERE mrp = 0;
@@ -0,0 +1,28 @@
+/*
+  # Count price changes, not runs
+
+  1. New Functions
+    - `count_price_changes` counts how often a listing's in-stock price
+      differed from the in-stock price seen before it, optionally only over
+      runs since a given time. A new run also starts when only the mrp or
+      discount changes, and out-of-stock or failed checks split an unchanged
+      price into two runs, so the number of runs overstates the changes.
+*/
+
+CREATE OR REPLACE FUNCTION count_price_changes(
+  p_listing_id uuid,
+  p_since timestamptz DEFAULT NULL
+) RETURNS integer
+LANGUAGE sql STABLE
+AS $$
+  SELECT count(*)::integer
+  FROM (
+    SELECT price, lag(price) OVER (ORDER BY checked_at) AS previous_price
+    FROM price_points
+    WHERE listing_id = p_listing_id
+      AND in_stock
+      AND price IS NOT NULL
+      AND (p_since IS NULL OR last_checked_at >= p_since)
+  ) priced
+  WHERE previous_price IS NOT NULL AND price <> previous_price;
+$$;
@@ -0,0 +1,29 @@
+/*
+  # Count price and stock transitions for scheduling
+
+  1. New Functions
+    - `count_listing_changes` counts a listing's price changes (as
+      `count_price_changes`) plus the times it went out of or back into stock,
+      over runs since a given time. Failed checks are skipped, so they neither
+      count as a change nor split one, and mrp or discount-only changes are
+      not counted.
+*/
+
+CREATE OR REPLACE FUNCTION count_listing_changes(
+  p_listing_id uuid,
+  p_since timestamptz DEFAULT NULL
+) RETURNS integer
+LANGUAGE sql STABLE
+AS $$
+  SELECT count_price_changes(p_listing_id, p_since) + (
+    SELECT count(*)::integer
+    FROM (
+      SELECT in_stock, lag(in_stock) OVER (ORDER BY checked_at) AS previous_in_stock
+      FROM price_points
+      WHERE listing_id = p_listing_id
+        AND in_stock IS NOT NULL
+        AND (p_since IS NULL OR last_checked_at >= p_since)
+    ) checked
+    WHERE previous_in_stock IS NOT NULL AND in_stock <> previous_in_stock
+  );
+$$;